@@ -1,48 +1,72 @@
 import {
-  exportDataFromIndexedDB,
-  importDataToIndexedDB,
-  ImportedData,
-} from "./db.ts";
-import {
+  ChatItem,
   ChatMessage,
   ChatSummary,
-  setOpenAiApiKey,
   useGetChat,
-  usePostMessage,
+  useGetSummaryChildren,
 } from "./ai.ts";
-import { MdDownload, MdSend, MdSettings, MdUpload } from "react-icons/md";
-import { useEffect, useRef, useState } from "react";
+import { processOutbox, useOutboxStatus, usePostMessage } from "./outbox.ts";
+import { useMessageActions } from "./editing.ts";
+import { useCurrentJournalId } from "./journals.ts";
+import { JournalSwitcher } from "./JournalsView.tsx";
+import { ExportView } from "./ExportView.tsx";
+import {
+  MdAssessment,
+  MdAttachFile,
+  MdCalendarMonth,
+  MdClose,
+  MdDataObject,
+  MdDelete,
+  MdDownload,
+  MdEdit,
+  MdExpandLess,
+  MdExpandMore,
+  MdInsertDriveFile,
+  MdLabel,
+  MdLock,
+  MdMic,
+  MdMood,
+  MdPerson,
+  MdPhotoCamera,
+  MdRefresh,
+  MdSearch,
+  MdSend,
+  MdSettings,
+  MdStop,
+  MdSync,
+  MdSyncProblem,
+  MdUpload,
+} from "react-icons/md";
+import {
+  ChangeEvent,
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
 import clsx from "clsx";
 import TextareaAutosize from "react-textarea-autosize";
-import { saveAs } from "file-saver";
-import { useQueryClient } from "@tanstack/react-query";
-
-const dateTimeFormat = new Intl.DateTimeFormat("ru", {
-  year: "numeric",
-  month: "long",
-  day: "numeric",
-  hour: "2-digit",
-  minute: "2-digit",
-});
-
-async function importData(file: File) {
-  const jsonString = await new Promise<string>((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onload = (e: ProgressEvent<FileReader>) => {
-      if (e.target?.result) {
-        resolve(e.target.result as string);
-      }
-    };
-    reader.onerror = (error) => {
-      reject(error);
-    };
-    reader.readAsText(file);
-  });
-
-  const importedData = JSON.parse(jsonString) as ImportedData;
-  console.log("Импортированные данные:", importedData);
-  await importDataToIndexedDB(importedData);
-}
+import { SettingsView } from "./SettingsView.tsx";
+import { dateTimeFormat, timeFormat } from "./format.ts";
+import { SearchView } from "./SearchView.tsx";
+import { SearchResult } from "./search.ts";
+import { isEncryptionEnabled, lock } from "./encryption.ts";
+import { ImportView } from "./ImportView.tsx";
+import { MoodSummaryView, MoodView } from "./MoodView.tsx";
+import { CalendarView } from "./CalendarView.tsx";
+import { ReportsView } from "./ReportsView.tsx";
+import { ContextView } from "./ContextView.tsx";
+import { ProfileView } from "./ProfileView.tsx";
+import { TagListView, TagsView } from "./TagsView.tsx";
+import { parseTags, TagContext } from "./tags.ts";
+import { retryCompression, useCompressionStatus } from "./compression.ts";
+import { useLocale, useStrings } from "./i18n.ts";
+import { isAudio, isImage, useAttachments } from "./attachments.ts";
+import { transcribe, useVoiceRecorder } from "./voice.ts";
+import { describeRequestError } from "./ai.ts";
 
 function useScroll(enabled: boolean) {
   const ref = useRef<HTMLDivElement | null>(null);
@@ -55,6 +79,115 @@ function useScroll(enabled: boolean) {
   return ref;
 }
 
+interface ArchiveNavigation {
+  expandedIds: ReadonlySet<string>;
+  focusedId: string | null;
+  toggle: (id: string) => void;
+  reveal: (path: string[], id: string) => void;
+}
+
+const ArchiveContext = createContext<ArchiveNavigation>({
+  expandedIds: new Set(),
+  focusedId: null,
+  toggle: () => {},
+  reveal: () => {},
+});
+
+// How long an entry opened from the search stays highlighted.
+const FOCUS_DURATION = 3000;
+
+function useArchiveNavigation(): ArchiveNavigation {
+  const [expandedIds, setExpandedIds] = useState<ReadonlySet<string>>(
+    new Set(),
+  );
+  const [focusedId, setFocusedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (focusedId === null) return;
+    const timeout = setTimeout(() => setFocusedId(null), FOCUS_DURATION);
+    return () => clearTimeout(timeout);
+  }, [focusedId]);
+
+  const toggle = useCallback((id: string) => {
+    setExpandedIds((ids) => {
+      const newIds = new Set(ids);
+      if (!newIds.delete(id)) newIds.add(id);
+      return newIds;
+    });
+  }, []);
+
+  const reveal = useCallback((path: string[], id: string) => {
+    setExpandedIds((ids) => new Set([...ids, ...path]));
+    setFocusedId(id);
+  }, []);
+
+  return { expandedIds, focusedId, toggle, reveal };
+}
+
+function AttachmentsView({ message }: { message: ChatMessage }) {
+  const attachments = useAttachments(message);
+  const urls = useMemo(
+    () => attachments?.map((a) => URL.createObjectURL(a.data)),
+    [attachments],
+  );
+  const strings = useStrings();
+
+  useEffect(
+    () => () => urls?.forEach((url) => URL.revokeObjectURL(url)),
+    [urls],
+  );
+
+  if (!attachments || !urls) return null;
+
+  return (
+    <div className="pt-1 flex flex-wrap gap-1 text-xs">
+      {attachments.map((attachment, index) => {
+        if (isAudio(attachment)) {
+          return (
+            <audio
+              key={attachment.id}
+              className="w-full"
+              controls
+              src={urls[index]}
+              title={attachment.name}
+            />
+          );
+        }
+        if (isImage(attachment)) {
+          return (
+            <a
+              key={attachment.id}
+              href={urls[index]}
+              target="_blank"
+              title={attachment.name}
+            >
+              <img
+                className="w-20 h-20 object-cover rounded border border-gray-300"
+                src={urls[index]}
+                alt={attachment.name}
+              />
+            </a>
+          );
+        }
+        return (
+          <a
+            key={attachment.id}
+            className="px-2 py-1 flex gap-1 items-center bg-gray-100 rounded"
+            href={urls[index]}
+            download={attachment.name}
+          >
+            <MdInsertDriveFile />
+            {attachment.name}
+            <span className="text-gray-500">
+              {strings.chat.fileSize(attachment.size)}
+            </span>
+          </a>
+        );
+      })}
+    </div>
+  );
+}
+
 function MessageView({
   message,
   scroll,
@@ -62,29 +195,236 @@ function MessageView({
   message: ChatMessage;
   scroll: boolean;
 }) {
-  const scrollRef = useScroll(scroll);
+  const { focusedId } = useContext(ArchiveContext);
+  const isFocused = focusedId === message.id;
+  const scrollRef = useScroll(scroll || isFocused);
+  const { edit, remove, regenerate, setTags } = useMessageActions();
+  const strings = useStrings();
+  const [editedContent, setEditedContent] = useState<string | null>(null);
+  const [editedTags, setEditedTags] = useState<string | null>(null);
+  const [isBusy, setBusy] = useState(false);
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    try {
+      await action();
+    } catch (e) {
+      console.error("Failed to change message", e);
+      alert(strings.chat.changeFailed);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const save = () =>
+    run(async () => {
+      if (editedContent === null) return;
+      await edit(message, editedContent);
+      setEditedContent(null);
+    });
+
+  const saveTags = () =>
+    run(async () => {
+      if (editedTags === null) return;
+      await setTags(message, parseTags(editedTags));
+      setEditedTags(null);
+    });
+
+  const removeMessage = () => {
+    if (!confirm(strings.chat.confirmDelete)) return;
+    run(() => remove(message));
+  };
+
+  const actionClassName =
+    "p-1 bg-gray-100 rounded active:bg-gray-400 disabled:text-gray-300";
 
   return (
-    <div ref={scrollRef}>
+    <div
+      ref={scrollRef}
+      className={clsx({ "ring-2 ring-inset ring-blue-300": isFocused })}
+    >
       <div className="px-2 py-2 bg-gray-50 border-b border-gray-300">
-        <div className="pb-1 flex justify-between items-baseline">
-          <span>USER </span>
+        <div className="pb-1 flex gap-1 items-baseline">
+          <span className="flex-1">{strings.chat.user} </span>
+          {!message.streaming && editedContent === null && (
+            <>
+              <button
+                className={actionClassName}
+                disabled={isBusy}
+                title={strings.chat.edit}
+                onClick={() => setEditedContent(message.userContent)}
+              >
+                <MdEdit />
+              </button>
+              <button
+                className={actionClassName}
+                disabled={isBusy}
+                title={strings.chat.editTags}
+                onClick={() => setEditedTags((message.tags ?? []).join(", "))}
+              >
+                <MdLabel />
+              </button>
+              <button
+                className={actionClassName}
+                disabled={isBusy || message.pending}
+                title={strings.chat.regenerate}
+                onClick={() => run(() => regenerate(message))}
+              >
+                <MdRefresh />
+              </button>
+              <button
+                className={actionClassName}
+                disabled={isBusy}
+                title={strings.chat.delete}
+                onClick={removeMessage}
+              >
+                <MdDelete />
+              </button>
+            </>
+          )}
           <span className="text-xs">
             {dateTimeFormat.format(message.timestamp)}
           </span>
         </div>
-        <div className="whitespace-pre-wrap text-xs">{message.userContent}</div>
+        {editedContent === null ? (
+          <>
+            <div className="whitespace-pre-wrap text-xs">
+              {message.userContent}
+            </div>
+            {message.attachmentIds && <AttachmentsView message={message} />}
+            {message.mood && <MoodSummaryView mood={message.mood} />}
+            {message.tags && editedTags === null && (
+              <TagListView tags={message.tags} />
+            )}
+            {editedTags !== null && (
+              <div className="pt-1 flex gap-2 items-center text-xs">
+                <input
+                  className="flex-1 border border-gray-300 rounded px-2 py-1 text-base"
+                  placeholder={strings.chat.tagsPlaceholder}
+                  autoFocus
+                  value={editedTags}
+                  onChange={(e) => setEditedTags(e.target.value)}
+                />
+                <button
+                  className="px-2 py-1 bg-gray-100 rounded"
+                  disabled={isBusy}
+                  onClick={() => setEditedTags(null)}
+                >
+                  {strings.common.cancel}
+                </button>
+                <button
+                  className="px-2 py-1 bg-blue-300 rounded disabled:bg-gray-300"
+                  disabled={isBusy}
+                  onClick={saveTags}
+                >
+                  {strings.common.save}
+                </button>
+              </div>
+            )}
+          </>
+        ) : (
+          <div className="flex flex-col gap-1">
+            <TextareaAutosize
+              className="border border-gray-300 rounded px-2 py-1 text-base"
+              minRows={2}
+              autoFocus
+              value={editedContent}
+              onChange={(e) => setEditedContent(e.target.value)}
+            />
+            <div className="flex gap-2 justify-end text-xs">
+              <button
+                className="px-2 py-1 bg-gray-100 rounded"
+                disabled={isBusy}
+                onClick={() => setEditedContent(null)}
+              >
+                {strings.common.cancel}
+              </button>
+              <button
+                className="px-2 py-1 bg-blue-300 rounded disabled:bg-gray-300"
+                disabled={isBusy || editedContent.trim() === ""}
+                onClick={save}
+              >
+                {strings.common.save}
+              </button>
+            </div>
+          </div>
+        )}
       </div>
       <div className="px-2 py-2 border-b border-gray-300">
-        <div className="pb-1">ASSISTANT</div>
+        <div className="pb-1">{strings.chat.assistant}</div>
         <div className="whitespace-pre-wrap text-xs">
           {message.assistantContent}
+          {message.streaming && <span className="animate-pulse">▍</span>}
         </div>
+        {message.pending && <PendingStatusView />}
+        {message.interrupted && (
+          <div className="pt-1 text-xs text-red-600">
+            {strings.chat.interrupted}
+          </div>
+        )}
       </div>
     </div>
   );
 }
 
+function PendingStatusView() {
+  const status = useOutboxStatus();
+  const strings = useStrings();
+
+  return (
+    <div className="text-xs text-gray-500">
+      {status.state === "offline" && strings.chat.offline}
+      {status.state === "sending" && strings.chat.sending}
+      {status.state === "idle" && strings.chat.waiting}
+      {status.state === "failed" && (
+        <div className="flex gap-2 items-center">
+          <span className="flex-1 text-red-600">
+            {strings.chat.notSent(status.error)}
+          </span>
+          <button
+            className="px-2 py-1 bg-gray-100 rounded active:bg-gray-400"
+            onClick={() => processOutbox()}
+          >
+            {strings.chat.retry}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function CompressionStatusView() {
+  const status = useCompressionStatus();
+  const strings = useStrings();
+
+  if (status.state === "running") {
+    return (
+      <div
+        className="p-2 flex gap-1 items-center text-xs text-gray-500"
+        title={strings.chat.compressing}
+      >
+        <MdSync className="animate-spin" />
+        {status.count > 0 && status.count}
+      </div>
+    );
+  }
+  if (status.state === "retrying") {
+    return (
+      <button
+        className="p-2 bg-gray-100 rounded text-red-600 active:bg-gray-400"
+        title={strings.chat.compressionFailed(
+          status.error,
+          timeFormat.format(status.retryAt),
+        )}
+        onClick={retryCompression}
+      >
+        <MdSyncProblem />
+      </button>
+    );
+  }
+  return null;
+}
+
 function SummaryView({
   summary,
   scroll,
@@ -92,87 +432,203 @@ function SummaryView({
   summary: ChatSummary;
   scroll: boolean;
 }) {
-  const scrollRef = useScroll(scroll);
+  const { expandedIds, focusedId, toggle } = useContext(ArchiveContext);
+  const isExpanded = expandedIds.has(summary.id);
+  const isFocused = focusedId === summary.id;
+  const scrollRef = useScroll(scroll || isFocused);
+  const children = useGetSummaryChildren(summary.id, isExpanded);
+  const strings = useStrings();
 
   return (
-    <div
-      className="px-2 py-2 border-b border-gray-300 bg-gray-50"
-      ref={scrollRef}
-    >
-      <div className="pb-1 flex justify-between items-baseline">
-        <span>SUMMARY </span>
-        <span className="text-xs">
-          {dateTimeFormat.format(summary.timestamp)}
-        </span>
+    <div ref={scrollRef}>
+      <div
+        className={clsx({
+          "px-2 py-2 border-b border-gray-300 bg-gray-50": true,
+          "ring-2 ring-inset ring-blue-300": isFocused,
+        })}
+      >
+        <div className="pb-1 flex justify-between items-baseline">
+          <button
+            className="flex items-center gap-1"
+            onClick={() => toggle(summary.id)}
+          >
+            {isExpanded ? <MdExpandLess /> : <MdExpandMore />}
+            <span>{strings.chat.summary} </span>
+          </button>
+          <span className="text-xs">
+            {dateTimeFormat.format(summary.timestamp)}
+          </span>
+        </div>
+        <div className="whitespace-pre-wrap text-xs">{summary.content}</div>
+        {summary.tags && <TagListView tags={summary.tags} />}
+        {summary.stale && (
+          <div className="pt-1 text-xs text-gray-500">{strings.chat.stale}</div>
+        )}
       </div>
-      <div className="whitespace-pre-wrap text-xs">{summary.content}</div>
+      {isExpanded && (
+        <div className="ml-2 border-l-4 border-gray-300">
+          {children ? (
+            <ChatItemsView items={children} scrollToEnd={false} />
+          ) : (
+            <div className="px-2 py-2 text-xs border-b border-gray-300">
+              {strings.common.loading}
+            </div>
+          )}
+        </div>
+      )}
     </div>
   );
 }
 
+function ChatItemsView({
+  items,
+  scrollToEnd,
+}: {
+  items: ChatItem[];
+  scrollToEnd: boolean;
+}) {
+  return items.map((item, index) => {
+    const scroll = scrollToEnd && index === items.length - 1;
+    if (item.type === "message")
+      return <MessageView key={item.id} message={item} scroll={scroll} />;
+    if (item.type === "summary")
+      return <SummaryView key={item.id} summary={item} scroll={scroll} />;
+    return null;
+  });
+}
+
 function HeaderView() {
-  const queryClient = useQueryClient();
+  const { reveal } = useContext(ArchiveContext);
+  const openTag = useContext(TagContext);
+  const [isSettingsOpen, setSettingsOpen] = useState(false);
+  const [isSearchOpen, setSearchOpen] = useState(false);
+  const [isImportOpen, setImportOpen] = useState(false);
+  const [isExportOpen, setExportOpen] = useState(false);
+  const [isMoodOpen, setMoodOpen] = useState(false);
+  const [isCalendarOpen, setCalendarOpen] = useState(false);
+  const [isReportsOpen, setReportsOpen] = useState(false);
+  const [isContextOpen, setContextOpen] = useState(false);
+  const [isProfileOpen, setProfileOpen] = useState(false);
+  const strings = useStrings();
 
-  const openSettings = () => {
-    const key = prompt("OpenAI API Key");
-    if (key) {
-      setOpenAiApiKey(key);
-    }
+  const openSearchResult = (result: SearchResult) => {
+    setSearchOpen(false);
+    reveal(result.path, result.id);
   };
 
-  const importDb = () => {
-    const input = document.createElement("input");
-    input.type = "file";
-    input.accept = "application/json";
-
-    input.onchange = async () => {
-      try {
-        const file = input.files?.item(0);
-        if (file) await importData(file);
-        await queryClient.invalidateQueries({
-          queryKey: ["chat"],
-        });
-      } catch (error) {
-        console.error("Failed to import data", error);
-      }
-    };
-
-    try {
-      document.body.appendChild(input);
-      input.click();
-    } finally {
-      document.body.removeChild(input);
-    }
+  const openCalendarResult = (result: SearchResult) => {
+    setCalendarOpen(false);
+    reveal(result.path, result.id);
   };
 
-  const exportDb = async () => {
-    const data = await exportDataFromIndexedDB();
-    const str = JSON.stringify(data, null, 2);
-    const blob = new Blob([str], { type: "application/json;charset=utf-8" });
-    saveAs(blob, "journal.json");
+  const openSettings = () => {
+    setSettingsOpen(true);
   };
 
   return (
     <div className="sticky top-0 bg-white shadow px-2 py-1 flex items-center gap-2">
-      <div className="flex-1">GPT Journal</div>
+      <JournalSwitcher />
+      <CompressionStatusView />
+      <button
+        className="p-2 bg-gray-100 rounded active:bg-gray-400"
+        title={strings.header.search}
+        onClick={() => setSearchOpen(true)}
+      >
+        <MdSearch />
+      </button>
+      <button
+        className="p-2 bg-gray-100 rounded active:bg-gray-400"
+        title={strings.header.tags}
+        onClick={() => openTag(null)}
+      >
+        <MdLabel />
+      </button>
+      <button
+        className="p-2 bg-gray-100 rounded active:bg-gray-400"
+        title={strings.header.calendar}
+        onClick={() => setCalendarOpen(true)}
+      >
+        <MdCalendarMonth />
+      </button>
+      <button
+        className="p-2 bg-gray-100 rounded active:bg-gray-400"
+        title={strings.header.reports}
+        onClick={() => setReportsOpen(true)}
+      >
+        <MdAssessment />
+      </button>
+      <button
+        className="p-2 bg-gray-100 rounded active:bg-gray-400"
+        title={strings.header.mood}
+        onClick={() => setMoodOpen(true)}
+      >
+        <MdMood />
+      </button>
+      <button
+        className="p-2 bg-gray-100 rounded active:bg-gray-400"
+        title={strings.header.profile}
+        onClick={() => setProfileOpen(true)}
+      >
+        <MdPerson />
+      </button>
       <button
         className="p-2 bg-gray-100 rounded active:bg-gray-400"
-        onClick={exportDb}
+        title={strings.header.export}
+        onClick={() => setExportOpen(true)}
       >
         <MdDownload />
       </button>
       <button
         className="p-2 bg-gray-100 rounded active:bg-gray-400"
-        onClick={importDb}
+        title={strings.header.import}
+        onClick={() => setImportOpen(true)}
       >
         <MdUpload />
       </button>
       <button
         className="p-2 bg-gray-100 rounded active:bg-gray-400"
+        title={strings.header.context}
+        onClick={() => setContextOpen(true)}
+      >
+        <MdDataObject />
+      </button>
+      <button
+        className="p-2 bg-gray-100 rounded active:bg-gray-400"
+        title={strings.header.settings}
         onClick={openSettings}
       >
         <MdSettings />
       </button>
+      {isEncryptionEnabled() && (
+        <button
+          className="p-2 bg-gray-100 rounded active:bg-gray-400"
+          title={strings.header.lock}
+          onClick={lock}
+        >
+          <MdLock />
+        </button>
+      )}
+      {isSettingsOpen && (
+        <SettingsView onClose={() => setSettingsOpen(false)} />
+      )}
+      {isExportOpen && <ExportView onClose={() => setExportOpen(false)} />}
+      {isContextOpen && <ContextView onClose={() => setContextOpen(false)} />}
+      {isMoodOpen && <MoodView onClose={() => setMoodOpen(false)} />}
+      {isProfileOpen && <ProfileView onClose={() => setProfileOpen(false)} />}
+      {isReportsOpen && <ReportsView onClose={() => setReportsOpen(false)} />}
+      {isCalendarOpen && (
+        <CalendarView
+          onClose={() => setCalendarOpen(false)}
+          onNavigate={openCalendarResult}
+        />
+      )}
+      {isImportOpen && <ImportView onClose={() => setImportOpen(false)} />}
+      {isSearchOpen && (
+        <SearchView
+          onClose={() => setSearchOpen(false)}
+          onNavigate={openSearchResult}
+        />
+      )}
     </div>
   );
 }
@@ -182,58 +638,187 @@ function ChatView() {
 
   return (
     <div className="min-h-screen">
-      {chat.map((item, index) => {
-        if (item.type === "message")
-          return (
-            <MessageView
-              key={item.id}
-              message={item}
-              scroll={index === chat.length - 1}
-            />
-          );
-        if (item.type === "summary")
-          return (
-            <SummaryView
-              key={item.id}
-              summary={item}
-              scroll={index === chat.length - 1}
-            />
-          );
-        return null;
-      })}
+      <ChatItemsView items={chat} scrollToEnd={true} />
     </div>
   );
 }
 
 function NewMessageView() {
   const [value, setValue] = useState("");
+  const [moodScore, setMoodScore] = useState<number | null>(null);
+  const [tags, setTags] = useState("");
+  const [files, setFiles] = useState<File[]>([]);
   const [isSending, setSending] = useState(false);
-  const canSend = value.trim() !== "" && !isSending;
+  const [isTranscribing, setTranscribing] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+  const cameraInputRef = useRef<HTMLInputElement | null>(null);
 
   const { execute: postMessage } = usePostMessage();
+  const strings = useStrings();
+
+  // The recording is kept even when it can't be transcribed, so nothing
+  // said is lost.
+  const onRecorded = useCallback(
+    async (file: File) => {
+      setFiles((files) => [...files, file]);
+      setTranscribing(true);
+      try {
+        const text = await transcribe(file);
+        setValue((value) =>
+          value.trim() === "" ? text : `${value}\n\n${text}`,
+        );
+      } catch (e) {
+        console.error("Failed to transcribe recording", e);
+        alert(strings.chat.transcriptionFailed(describeRequestError(e)));
+      } finally {
+        setTranscribing(false);
+      }
+    },
+    [strings],
+  );
+  const recorder = useVoiceRecorder(onRecorded);
+
+  const canSend =
+    (value.trim() !== "" || files.length > 0) &&
+    !isSending &&
+    !isTranscribing &&
+    !recorder.isRecording;
+
+  const record = async () => {
+    try {
+      await recorder.start();
+    } catch (e) {
+      console.error("Failed to start recording", e);
+      alert(strings.chat.microphoneFailed);
+    }
+  };
 
   const send = async () => {
     try {
       setSending(true);
-      await postMessage(value);
+      await postMessage(value, moodScore, parseTags(tags), files);
       setValue("");
+      setMoodScore(null);
+      setTags("");
+      setFiles([]);
     } catch (e) {
-      console.error("Failed to send message", e);
-      alert("Ошибка при отправке сообщения");
+      console.error("Failed to save message", e);
+      alert(
+        `${strings.chat.saveFailed}: ${e instanceof Error ? e.message : e}`,
+      );
     } finally {
       setSending(false);
     }
   };
 
+  const addFiles = (e: ChangeEvent<HTMLInputElement>) => {
+    const added = [...(e.target.files ?? [])];
+    setFiles((files) => [...files, ...added]);
+    // So picking the same file again fires another change.
+    e.target.value = "";
+  };
+
   return (
     <div className="sticky bottom-0 bg-white px-2 py-2 flex gap-2 items-start">
-      <TextareaAutosize
-        className="flex-1 border border-gray-300 rounded px-2 py-1 text-base"
-        placeholder="Сообщение"
-        minRows={2}
-        value={value}
-        onChange={(e) => setValue(e.target.value)}
-      />
+      <div className="flex-1 flex flex-col gap-1">
+        <TextareaAutosize
+          className="border border-gray-300 rounded px-2 py-1 text-base"
+          placeholder={strings.chat.messagePlaceholder}
+          minRows={2}
+          value={value}
+          onChange={(e) => setValue(e.target.value)}
+        />
+        <input
+          className="border border-gray-300 rounded px-2 py-1 text-xs"
+          placeholder={strings.chat.tagsPlaceholder}
+          value={tags}
+          onChange={(e) => setTags(e.target.value)}
+        />
+        <div className="flex flex-wrap gap-1 items-center text-xs">
+          <button
+            className="p-1 bg-gray-100 rounded active:bg-gray-400"
+            title={strings.chat.attachFile}
+            onClick={() => fileInputRef.current?.click()}
+          >
+            <MdAttachFile />
+          </button>
+          <button
+            className="p-1 bg-gray-100 rounded active:bg-gray-400"
+            title={strings.chat.takePhoto}
+            onClick={() => cameraInputRef.current?.click()}
+          >
+            <MdPhotoCamera />
+          </button>
+          {recorder.isRecording ? (
+            <button
+              className="p-1 bg-red-300 rounded active:bg-gray-400"
+              title={strings.chat.stopRecording}
+              onClick={recorder.stop}
+            >
+              <MdStop className="animate-pulse" />
+            </button>
+          ) : (
+            <button
+              className="p-1 bg-gray-100 rounded active:bg-gray-400 disabled:text-gray-300"
+              disabled={isTranscribing}
+              title={strings.chat.record}
+              onClick={record}
+            >
+              <MdMic />
+            </button>
+          )}
+          {isTranscribing && (
+            <span className="text-gray-500">{strings.chat.transcribing}</span>
+          )}
+          {files.map((file, index) => (
+            <span
+              key={index}
+              className="pl-2 flex gap-1 items-center bg-gray-100 rounded"
+            >
+              {file.name}
+              <button
+                className="p-1"
+                title={strings.chat.removeAttachment}
+                onClick={() =>
+                  setFiles((files) => files.filter((f) => f !== file))
+                }
+              >
+                <MdClose />
+              </button>
+            </span>
+          ))}
+          <input
+            ref={fileInputRef}
+            className="hidden"
+            type="file"
+            multiple
+            onChange={addFiles}
+          />
+          <input
+            ref={cameraInputRef}
+            className="hidden"
+            type="file"
+            accept="image/*"
+            capture="environment"
+            onChange={addFiles}
+          />
+        </div>
+      </div>
+      <select
+        className="p-2 bg-gray-100 rounded"
+        title={strings.chat.mood}
+        value={moodScore ?? ""}
+        onChange={(e) =>
+          setMoodScore(e.target.value ? Number(e.target.value) : null)
+        }
+      >
+        <option value="">☺</option>
+        {[1, 2, 3, 4, 5, 6, 7, 8, 9, 10].map((score) => (
+          <option key={score} value={score}>
+            {score}
+          </option>
+        ))}
+      </select>
       <button
         className={clsx({
           "flex-0 p-2 rounded": true,
@@ -249,14 +834,49 @@ function NewMessageView() {
   );
 }
 
-function App() {
+function JournalView() {
+  const archiveNavigation = useArchiveNavigation();
+  const [openedTag, setOpenedTag] = useState<{ tag: string | null } | null>(
+    null,
+  );
+
+  const openTag = useCallback(
+    (tag: string | null) => setOpenedTag({ tag }),
+    [],
+  );
+
+  const openTagResult = (result: SearchResult) => {
+    setOpenedTag(null);
+    archiveNavigation.reveal(result.path, result.id);
+  };
+
   return (
-    <div>
-      <HeaderView />
-      <ChatView />
-      <NewMessageView />
-    </div>
+    <ArchiveContext.Provider value={archiveNavigation}>
+      <TagContext.Provider value={openTag}>
+        <div>
+          <HeaderView />
+          <ChatView />
+          <NewMessageView />
+        </div>
+        {openedTag && (
+          <TagsView
+            initialTag={openedTag.tag}
+            onClose={() => setOpenedTag(null)}
+            onNavigate={openTagResult}
+          />
+        )}
+      </TagContext.Provider>
+    </ArchiveContext.Provider>
   );
 }
 
+// Remounted on switching journals, so nothing expanded or typed in one
+// carries over to another, and on switching languages, so every date is
+// formatted anew.
+function App() {
+  const journalId = useCurrentJournalId();
+  const locale = useLocale();
+  return <JournalView key={`${journalId}:${locale}`} />;
+}
+
 export default App;
@@ -0,0 +1,167 @@
+import { useState } from "react";
+import {
+  addMonths,
+  eachDayOfInterval,
+  endOfMonth,
+  endOfWeek,
+  isSameMonth,
+  isToday,
+  parseISO,
+  startOfMonth,
+  startOfWeek,
+  subMonths,
+} from "date-fns";
+import { MdArrowBack, MdChevronLeft, MdChevronRight } from "react-icons/md";
+import clsx from "clsx";
+import {
+  JournalDays,
+  toDayKey,
+  useDayResults,
+  useJournalDays,
+} from "./calendar.ts";
+import { useCurrentJournalId } from "./journals.ts";
+import { SearchResult } from "./search.ts";
+import { Dialog } from "./Dialog.tsx";
+import { SearchResultView } from "./SearchView.tsx";
+import { dateFormat, monthFormat, weekdayFormat } from "./format.ts";
+import { useStrings } from "./i18n.ts";
+
+const WEEK_OPTIONS = { weekStartsOn: 1 } as const;
+
+function getDayClassName(days: JournalDays, day: string): string {
+  const count = days.entryCounts.get(day) ?? 0;
+  if (count >= 3) return "bg-blue-400 text-white";
+  if (count === 2) return "bg-blue-300";
+  if (count === 1) return "bg-blue-200";
+  if (days.summaryDays.has(day)) return "bg-gray-200";
+  return "";
+}
+
+function MonthView({
+  month,
+  days,
+  onSelect,
+}: {
+  month: Date;
+  days: JournalDays;
+  onSelect: (day: string) => void;
+}) {
+  const weeks = eachDayOfInterval({
+    start: startOfWeek(startOfMonth(month), WEEK_OPTIONS),
+    end: endOfWeek(endOfMonth(month), WEEK_OPTIONS),
+  });
+
+  return (
+    <div className="grid grid-cols-7 gap-1 text-xs text-center">
+      {weeks.slice(0, 7).map((day) => (
+        <div key={day.valueOf()} className="text-gray-500">
+          {weekdayFormat.format(day)}
+        </div>
+      ))}
+      {weeks.map((day) => {
+        const key = toDayKey(day);
+        if (!isSameMonth(day, month)) return <div key={key} />;
+        const hasContent =
+          days.entryCounts.has(key) || days.summaryDays.has(key);
+        return (
+          <button
+            key={key}
+            className={clsx(
+              "py-2 rounded disabled:text-gray-400",
+              getDayClassName(days, key),
+              { "ring-2 ring-blue-500": isToday(day) },
+            )}
+            disabled={!hasContent}
+            onClick={() => onSelect(key)}
+          >
+            {day.getDate()}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
+
+function DayView({
+  day,
+  onNavigate,
+}: {
+  day: string;
+  onNavigate: (result: SearchResult) => void;
+}) {
+  const results = useDayResults(useCurrentJournalId(), day);
+
+  return results.map((result) => (
+    <SearchResultView
+      key={result.id}
+      result={result}
+      onClick={() => onNavigate(result)}
+    />
+  ));
+}
+
+export function CalendarView({
+  onClose,
+  onNavigate,
+}: {
+  onClose: () => void;
+  onNavigate: (result: SearchResult) => void;
+}) {
+  const days = useJournalDays(useCurrentJournalId());
+  const [month, setMonth] = useState(() => startOfMonth(new Date()));
+  const [selectedDay, setSelectedDay] = useState<string | null>(null);
+  const strings = useStrings().calendar;
+
+  if (selectedDay !== null) {
+    return (
+      <Dialog
+        title={dateFormat.format(parseISO(selectedDay))}
+        onClose={onClose}
+      >
+        <button
+          className="mb-2 p-2 bg-gray-100 rounded active:bg-gray-400"
+          onClick={() => setSelectedDay(null)}
+        >
+          <MdArrowBack />
+        </button>
+        <DayView day={selectedDay} onNavigate={onNavigate} />
+      </Dialog>
+    );
+  }
+
+  const monthDays = days
+    ? [...days.entryCounts.keys()].filter((day) =>
+        isSameMonth(parseISO(day), month),
+      ).length
+    : 0;
+
+  return (
+    <Dialog title={strings.title} onClose={onClose}>
+      <div className="pb-2 flex gap-2 items-center">
+        <button
+          className="p-2 bg-gray-100 rounded active:bg-gray-400"
+          onClick={() => setMonth(subMonths(month, 1))}
+        >
+          <MdChevronLeft />
+        </button>
+        <div className="flex-1 text-center">{monthFormat.format(month)}</div>
+        <button
+          className="p-2 bg-gray-100 rounded active:bg-gray-400"
+          onClick={() => setMonth(addMonths(month, 1))}
+        >
+          <MdChevronRight />
+        </button>
+      </div>
+      {days && (
+        <>
+          <MonthView month={month} days={days} onSelect={setSelectedDay} />
+          <ul className="pt-2 text-xs">
+            <li>{strings.daysThisMonth(monthDays)}</li>
+            <li>{strings.streaks(days.currentStreak, days.longestStreak)}</li>
+            <li className="text-gray-500">{strings.summaryDays}</li>
+          </ul>
+        </>
+      )}
+    </Dialog>
+  );
+}
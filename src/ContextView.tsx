@@ -0,0 +1,128 @@
+import { useState } from "react";
+import clsx from "clsx";
+import {
+  ContextPart,
+  PromptContext,
+  useLastContext,
+  usePreviewContext,
+} from "./context.ts";
+import { useCurrentJournalId } from "./journals.ts";
+import { Dialog } from "./Dialog.tsx";
+import { dateTimeFormat } from "./format.ts";
+import { useStrings } from "./i18n.ts";
+
+function PartView({ part }: { part: ContextPart }) {
+  const [isExpanded, setExpanded] = useState(false);
+  const strings = useStrings().context;
+
+  return (
+    <div
+      className={clsx("py-1 border-b border-gray-300 text-xs", {
+        "text-gray-400": part.state === "dropped",
+      })}
+    >
+      <button
+        className="w-full flex gap-2 text-left"
+        disabled={part.state === "dropped"}
+        onClick={() => setExpanded(!isExpanded)}
+      >
+        <span className="flex-1">
+          {strings.kinds[part.kind]}
+          {part.date && `, ${dateTimeFormat.format(part.date)}`}
+        </span>
+        {part.state === "truncated" && (
+          <span className="text-orange-600">
+            {strings.truncated(part.tokens, part.fullTokens)}
+          </span>
+        )}
+        {part.state === "dropped" && (
+          <span>{strings.dropped(part.fullTokens)}</span>
+        )}
+        {part.state === "included" && <span>{part.tokens}</span>}
+      </button>
+      {isExpanded &&
+        part.messages.map((message, index) => (
+          <div key={index} className="pt-1 whitespace-pre-wrap">
+            <span className="pr-1 text-gray-500">
+              {message.role.toUpperCase()}
+              {message.name && ` (${message.name})`}
+            </span>
+            {message.content}
+            {message.images && message.images.length > 0 && (
+              <span className="pl-1 text-gray-500">
+                [{strings.images(message.images.length)}]
+              </span>
+            )}
+          </div>
+        ))}
+    </div>
+  );
+}
+
+function PromptContextView({ context }: { context: PromptContext }) {
+  const dropped = context.parts.filter((part) => part.state === "dropped");
+  const strings = useStrings().context;
+
+  return (
+    <>
+      <ul className="pb-2 text-xs">
+        <li>
+          {strings.usage(
+            context.model,
+            context.promptTokens,
+            context.replyTokens,
+            context.contextWindow,
+          )}
+        </li>
+        {dropped.length > 0 && (
+          <li className="text-red-600">
+            {strings.droppedCount(dropped.length)}
+          </li>
+        )}
+      </ul>
+      {context.parts.map((part, index) => (
+        <PartView key={index} part={part} />
+      ))}
+    </>
+  );
+}
+
+// Shows what the chat model is sent, part by part, with the token count of
+// each and what was cut or left out to fit its context window.
+export function ContextView({ onClose }: { onClose: () => void }) {
+  const journalId = useCurrentJournalId();
+  const lastContext = useLastContext(journalId);
+  const preview = usePreviewContext(journalId);
+  const [isLast, setLast] = useState(lastContext !== undefined);
+  const context = isLast ? lastContext : preview;
+  const strings = useStrings().context;
+
+  return (
+    <Dialog title={strings.title} onClose={onClose}>
+      <div className="pb-2 flex gap-2 text-xs">
+        <label className="flex gap-1 items-center">
+          <input
+            type="radio"
+            checked={!isLast}
+            onChange={() => setLast(false)}
+          />
+          {strings.next}
+        </label>
+        <label className="flex gap-1 items-center">
+          <input
+            type="radio"
+            checked={isLast}
+            disabled={!lastContext}
+            onChange={() => setLast(true)}
+          />
+          {strings.last}
+          {lastContext && `, ${dateTimeFormat.format(lastContext.createdAt)}`}
+        </label>
+      </div>
+      {!isLast && (
+        <div className="pb-2 text-xs text-gray-500">{strings.noRecall}</div>
+      )}
+      {context && <PromptContextView context={context} />}
+    </Dialog>
+  );
+}
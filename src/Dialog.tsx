@@ -0,0 +1,29 @@
+import { ReactNode } from "react";
+import { MdClose } from "react-icons/md";
+
+export function Dialog({
+  title,
+  onClose,
+  children,
+}: {
+  title: string;
+  onClose: () => void;
+  children: ReactNode;
+}) {
+  return (
+    <div className="fixed inset-0 z-10 bg-black/30 flex justify-center items-start overflow-y-auto">
+      <div className="bg-white w-full max-w-xl min-h-screen sm:min-h-0 sm:my-8 sm:rounded shadow">
+        <div className="sticky top-0 bg-white shadow px-2 py-1 flex items-center gap-2">
+          <div className="flex-1">{title}</div>
+          <button
+            className="p-2 bg-gray-100 rounded active:bg-gray-400"
+            onClick={onClose}
+          >
+            <MdClose />
+          </button>
+        </div>
+        <div className="px-2 py-2">{children}</div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,147 @@
+import { useState } from "react";
+import { endOfDay, parseISO, startOfDay } from "date-fns";
+import { saveAs } from "file-saver";
+import { exportDataFromIndexedDB, getJournal } from "./db.ts";
+import { DocumentFormat, exportDocument } from "./journalExport.ts";
+import { isEncryptionEnabled, protectExport } from "./encryption.ts";
+import { getCurrentJournalId } from "./journals.ts";
+import { Dialog } from "./Dialog.tsx";
+import { getStrings, useStrings } from "./i18n.ts";
+
+type ExportFormat = "json" | DocumentFormat;
+
+const FORMATS: ExportFormat[] = [
+  "json",
+  "markdown",
+  "markdown-zip",
+  "text",
+  "html",
+];
+
+async function exportJson() {
+  const journalId = getCurrentJournalId();
+  const journal = await getJournal(journalId);
+  const data = await protectExport(await exportDataFromIndexedDB(journalId));
+  const str = JSON.stringify(data, null, 2);
+  const blob = new Blob([str], { type: "application/json;charset=utf-8" });
+  saveAs(blob, `${journal?.name ?? getStrings().export.journal}.json`);
+}
+
+export function ExportView({ onClose }: { onClose: () => void }) {
+  const [exportFormat, setExportFormat] = useState<ExportFormat>("json");
+  const [includeAssistant, setIncludeAssistant] = useState(true);
+  const [includeSummaries, setIncludeSummaries] = useState(true);
+  const [dateFrom, setDateFrom] = useState("");
+  const [dateTo, setDateTo] = useState("");
+  const [isExporting, setExporting] = useState(false);
+  const strings = useStrings();
+
+  const inputClassName = "border border-gray-300 rounded px-2 py-1 text-base";
+
+  const run = async () => {
+    // Opened right away: browsers only allow pop-ups in response to a click.
+    const printWindow =
+      exportFormat === "html" ? window.open("", "_blank") : null;
+
+    setExporting(true);
+    try {
+      if (exportFormat === "json") {
+        await exportJson();
+      } else {
+        const { blob, fileName } = await exportDocument(getCurrentJournalId(), {
+          format: exportFormat,
+          includeAssistant,
+          includeSummaries,
+          dateFrom: dateFrom ? startOfDay(parseISO(dateFrom)) : null,
+          dateTo: dateTo ? endOfDay(parseISO(dateTo)) : null,
+        });
+        if (printWindow) {
+          printWindow.location.href = URL.createObjectURL(blob);
+        } else {
+          saveAs(blob, fileName);
+        }
+      }
+      onClose();
+    } catch (e) {
+      console.error("Failed to export journal", e);
+      printWindow?.close();
+      alert(e instanceof Error ? e.message : String(e));
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <Dialog title={strings.export.title} onClose={onClose}>
+      <div className="flex flex-col gap-1 pb-2 text-xs">
+        <label className="flex flex-col">
+          {strings.export.format}
+          <select
+            className={inputClassName}
+            value={exportFormat}
+            onChange={(e) => setExportFormat(e.target.value as ExportFormat)}
+          >
+            {FORMATS.map((value) => (
+              <option key={value} value={value}>
+                {strings.export.formats[value]}
+              </option>
+            ))}
+          </select>
+        </label>
+        {exportFormat !== "json" && (
+          <>
+            <label className="flex gap-2 items-center">
+              <input
+                type="checkbox"
+                checked={includeAssistant}
+                onChange={(e) => setIncludeAssistant(e.target.checked)}
+              />
+              {strings.export.includeAssistant}
+            </label>
+            <label className="flex gap-2 items-center">
+              <input
+                type="checkbox"
+                checked={includeSummaries}
+                onChange={(e) => setIncludeSummaries(e.target.checked)}
+              />
+              {strings.export.includeSummaries}
+            </label>
+            <div className="flex gap-2">
+              <label className="flex-1 flex flex-col">
+                {strings.common.from}
+                <input
+                  className={inputClassName}
+                  type="date"
+                  value={dateFrom}
+                  onChange={(e) => setDateFrom(e.target.value)}
+                />
+              </label>
+              <label className="flex-1 flex flex-col">
+                {strings.common.to}
+                <input
+                  className={inputClassName}
+                  type="date"
+                  value={dateTo}
+                  onChange={(e) => setDateTo(e.target.value)}
+                />
+              </label>
+            </div>
+            {isEncryptionEnabled() && (
+              <div className="text-gray-500">{strings.export.unencrypted}</div>
+            )}
+          </>
+        )}
+      </div>
+      <div className="flex gap-2">
+        <div className="flex-1" />
+        <button
+          className="px-4 py-2 bg-blue-300 rounded disabled:bg-gray-300"
+          disabled={isExporting}
+          onClick={run}
+        >
+          {isExporting ? strings.export.exporting : strings.export.export}
+        </button>
+      </div>
+    </Dialog>
+  );
+}
@@ -0,0 +1,499 @@
+import { useState } from "react";
+import { QueryClient, useQuery, useQueryClient } from "@tanstack/react-query";
+import { getBackups, ImportedData, ImportMode } from "./db.ts";
+import {
+  getImportPreview,
+  ImportPreview,
+  importJournal,
+  isDestructiveImport,
+  restoreBackup,
+  validateImportedData,
+} from "./importing.ts";
+import {
+  isEncryptedExport,
+  tryUnprotectExport,
+  unprotectExport,
+} from "./encryption.ts";
+import { indexEmbeddings } from "./ai.ts";
+import {
+  ChatGPTConversation,
+  ExternalSource,
+  importExternalEntries,
+  parseExternalJson,
+  parseMarkdownFiles,
+} from "./externalImport.ts";
+import { Dialog } from "./Dialog.tsx";
+import { dateTimeFormat } from "./format.ts";
+import { useCurrentJournalId } from "./journals.ts";
+import { getStrings, useStrings } from "./i18n.ts";
+
+type ImportSource =
+  | { type: "journal"; data: ImportedData; preview: ImportPreview }
+  | ExternalSource;
+
+async function readJsonFile(
+  file: File,
+  journalId: string,
+): Promise<ImportSource> {
+  let json: unknown;
+  try {
+    json = JSON.parse(await file.text());
+  } catch {
+    throw new Error(getStrings().import.invalidJson);
+  }
+
+  const external = parseExternalJson(json);
+  if (external) return external;
+
+  if (isEncryptedExport(json)) {
+    json =
+      (await tryUnprotectExport(json)) ??
+      (await unprotectExport(json, await askPassphrase()));
+  }
+
+  const data = validateImportedData(json);
+  const preview = await getImportPreview(data, journalId);
+  return { type: "journal", data, preview };
+}
+
+async function askPassphrase(): Promise<string> {
+  const strings = getStrings().import;
+  const passphrase = prompt(strings.passphrase);
+  if (passphrase === null) throw new Error(strings.cancelled);
+  return passphrase;
+}
+
+function pickFiles(
+  { accept, directory }: { accept: string; directory: boolean },
+  onPick: (files: File[]) => void,
+) {
+  const input = document.createElement("input");
+  input.type = "file";
+  input.accept = accept;
+  input.webkitdirectory = directory;
+
+  input.onchange = () => {
+    const files = Array.from(input.files ?? []);
+    if (files.length > 0) onPick(files);
+  };
+
+  try {
+    document.body.appendChild(input);
+    input.click();
+  } finally {
+    document.body.removeChild(input);
+  }
+}
+
+async function finishImport(queryClient: QueryClient) {
+  await queryClient.invalidateQueries({ queryKey: ["chat"] });
+  await queryClient.invalidateQueries({ queryKey: ["backups"] });
+  indexEmbeddings().catch((e) =>
+    console.error("Failed to index embeddings", e),
+  );
+}
+
+function getErrorMessage(e: unknown): string {
+  return e instanceof Error ? e.message : String(e);
+}
+
+function PreviewView({
+  preview,
+  mode,
+}: {
+  preview: ImportPreview;
+  mode: ImportMode;
+}) {
+  const newCount =
+    preview.messageCount +
+    preview.summaryCount -
+    preview.conflictCount -
+    preview.duplicateCount;
+  const strings = useStrings().import;
+
+  return (
+    <ul className="pb-2 text-xs">
+      <li>{strings.counts(preview.messageCount, preview.summaryCount)}</li>
+      {preview.dateFrom && preview.dateTo && (
+        <li>
+          {dateTimeFormat.format(preview.dateFrom)} —{" "}
+          {dateTimeFormat.format(preview.dateTo)}
+        </li>
+      )}
+      {mode === "replace" && (
+        <li className={preview.existingCount > 0 ? "text-red-600" : ""}>
+          {strings.deleted(preview.existingCount)}
+        </li>
+      )}
+      {mode === "merge" && (
+        <>
+          <li>{strings.added(newCount)}</li>
+          <li className={preview.conflictCount > 0 ? "text-red-600" : ""}>
+            {strings.conflicts(preview.conflictCount)}
+          </li>
+          <li>{strings.duplicates(preview.duplicateCount)}</li>
+        </>
+      )}
+      {preview.foreignCount > 0 && (
+        <li>{strings.foreign(preview.foreignCount)}</li>
+      )}
+    </ul>
+  );
+}
+
+function ImportButton({
+  label,
+  disabled,
+  onClick,
+}: {
+  label: string;
+  disabled: boolean;
+  onClick: () => void;
+}) {
+  return (
+    <div className="flex gap-2">
+      <div className="flex-1" />
+      <button
+        className="px-4 py-2 bg-blue-300 rounded disabled:bg-gray-300"
+        disabled={disabled}
+        onClick={onClick}
+      >
+        {label}
+      </button>
+    </div>
+  );
+}
+
+function JournalImportView({
+  data,
+  preview,
+  onClose,
+}: {
+  data: ImportedData;
+  preview: ImportPreview;
+  onClose: () => void;
+}) {
+  const queryClient = useQueryClient();
+  const journalId = useCurrentJournalId();
+  const [mode, setMode] = useState<ImportMode>("merge");
+  const [isImporting, setImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const strings = useStrings().import;
+
+  const run = async () => {
+    setImporting(true);
+    setError(null);
+    try {
+      await importJournal(data, mode, journalId);
+      await finishImport(queryClient);
+      onClose();
+    } catch (e) {
+      console.error("Failed to import data", e);
+      setError(getErrorMessage(e));
+      setImporting(false);
+    }
+  };
+
+  return (
+    <>
+      <div className="flex flex-col gap-1 pb-2 text-xs">
+        <label className="flex gap-2 items-center">
+          <input
+            type="radio"
+            checked={mode === "merge"}
+            onChange={() => setMode("merge")}
+          />
+          {strings.merge}
+        </label>
+        <label className="flex gap-2 items-center">
+          <input
+            type="radio"
+            checked={mode === "replace"}
+            onChange={() => setMode("replace")}
+          />
+          {strings.replace}
+        </label>
+      </div>
+      <PreviewView preview={preview} mode={mode} />
+      {isDestructiveImport(preview, mode) && (
+        <div className="pb-2 text-xs text-gray-500">{strings.backupNote}</div>
+      )}
+      {error && (
+        <div className="pb-2 text-xs text-red-600 whitespace-pre-wrap">
+          {error}
+        </div>
+      )}
+      <ImportButton
+        label={isImporting ? strings.importing : strings.import}
+        disabled={isImporting}
+        onClick={run}
+      />
+    </>
+  );
+}
+
+function ConversationsView({
+  conversations,
+  selectedIds,
+  onChange,
+}: {
+  conversations: ChatGPTConversation[];
+  selectedIds: Set<string>;
+  onChange: (ids: Set<string>) => void;
+}) {
+  const strings = useStrings().import;
+
+  const toggle = (id: string, isSelected: boolean) => {
+    const ids = new Set(selectedIds);
+    if (isSelected) ids.add(id);
+    else ids.delete(id);
+    onChange(ids);
+  };
+
+  return (
+    <div className="pb-2 flex flex-col text-xs">
+      <label className="py-1 flex gap-2 items-center border-b border-gray-300">
+        <input
+          type="checkbox"
+          checked={selectedIds.size === conversations.length}
+          onChange={(e) =>
+            onChange(
+              new Set(e.target.checked ? conversations.map((c) => c.id) : []),
+            )
+          }
+        />
+        {strings.allConversations}
+      </label>
+      {conversations.map((conversation) => (
+        <label
+          key={conversation.id}
+          className="py-1 flex gap-2 items-center border-b border-gray-300"
+        >
+          <input
+            type="checkbox"
+            checked={selectedIds.has(conversation.id)}
+            onChange={(e) => toggle(conversation.id, e.target.checked)}
+          />
+          <span className="flex-1">
+            {conversation.title || strings.untitled}
+          </span>
+          <span className="text-gray-500">
+            {strings.conversationInfo(
+              dateTimeFormat.format(conversation.createdAt),
+              conversation.entries.length,
+            )}
+          </span>
+        </label>
+      ))}
+    </div>
+  );
+}
+
+type ExternalImportState =
+  | { state: "ready" }
+  | { state: "importing" }
+  | { state: "failed"; error: string };
+
+function ExternalImportView({
+  source,
+  onClose,
+}: {
+  source: ExternalSource;
+  onClose: () => void;
+}) {
+  const queryClient = useQueryClient();
+  const journalId = useCurrentJournalId();
+  const [selectedIds, setSelectedIds] = useState(new Set<string>());
+  const [state, setState] = useState<ExternalImportState>({ state: "ready" });
+  const strings = useStrings().import;
+
+  const entries =
+    source.type === "chatgpt"
+      ? source.conversations
+          .filter((c) => selectedIds.has(c.id))
+          .flatMap((c) => c.entries)
+      : source.entries;
+
+  const run = async () => {
+    setState({ state: "importing" });
+    try {
+      const { skippedCount } = await importExternalEntries(entries, journalId);
+      await finishImport(queryClient);
+      if (skippedCount > 0) alert(strings.importedBefore(skippedCount));
+      onClose();
+    } catch (e) {
+      console.error("Failed to import entries", e);
+      setState({ state: "failed", error: getErrorMessage(e) });
+    }
+  };
+
+  return (
+    <>
+      {source.type === "chatgpt" && (
+        <ConversationsView
+          conversations={source.conversations}
+          selectedIds={selectedIds}
+          onChange={setSelectedIds}
+        />
+      )}
+      <ul className="pb-2 text-xs">
+        <li>{strings.entriesAdded(entries.length)}</li>
+        {source.type === "markdown" && source.skipped.length > 0 && (
+          <li className="text-red-600">
+            {strings.skipped(source.skipped.length, source.skipped.join(", "))}
+          </li>
+        )}
+        <li className="text-gray-500">{strings.summarizedLater}</li>
+      </ul>
+      {state.state === "failed" && (
+        <div className="pb-2 text-xs text-red-600 whitespace-pre-wrap">
+          {state.error}
+        </div>
+      )}
+      <ImportButton
+        label={state.state === "importing" ? strings.importing : strings.import}
+        disabled={state.state === "importing" || entries.length === 0}
+        onClick={run}
+      />
+    </>
+  );
+}
+
+type ImportState =
+  | { state: "choosing" }
+  | { state: "reading"; name: string }
+  | { state: "ready"; name: string; source: ImportSource }
+  | { state: "failed"; error: string };
+
+export function ImportView({ onClose }: { onClose: () => void }) {
+  const journalId = useCurrentJournalId();
+  const [state, setState] = useState<ImportState>({ state: "choosing" });
+  const strings = useStrings().import;
+
+  const read = async (name: string, load: () => Promise<ImportSource>) => {
+    setState({ state: "reading", name });
+    try {
+      setState({ state: "ready", name, source: await load() });
+    } catch (e) {
+      console.error("Failed to read import file", e);
+      setState({ state: "failed", error: getErrorMessage(e) });
+    }
+  };
+
+  const chooseFile = () =>
+    pickFiles({ accept: "application/json", directory: false }, ([file]) =>
+      read(file.name, () => readJsonFile(file, journalId)),
+    );
+
+  const chooseFolder = () =>
+    pickFiles({ accept: "", directory: true }, (files) =>
+      read(files[0].webkitRelativePath.split("/")[0], () =>
+        parseMarkdownFiles(files),
+      ),
+    );
+
+  return (
+    <Dialog
+      title={
+        state.state === "ready" ? strings.titleOf(state.name) : strings.title
+      }
+      onClose={onClose}
+    >
+      {(state.state === "choosing" || state.state === "failed") && (
+        <div className="pb-2 flex flex-col gap-2 text-xs">
+          <button
+            className="px-4 py-2 bg-gray-100 rounded active:bg-gray-400 text-left"
+            onClick={chooseFile}
+          >
+            {strings.jsonFile}
+          </button>
+          <button
+            className="px-4 py-2 bg-gray-100 rounded active:bg-gray-400 text-left"
+            onClick={chooseFolder}
+          >
+            {strings.folder}
+          </button>
+        </div>
+      )}
+      {state.state === "reading" && (
+        <div className="text-xs text-gray-500">
+          {strings.reading(state.name)}
+        </div>
+      )}
+      {state.state === "failed" && (
+        <div className="text-xs text-red-600 whitespace-pre-wrap">
+          {state.error}
+        </div>
+      )}
+      {state.state === "ready" &&
+        (state.source.type === "journal" ? (
+          <JournalImportView
+            data={state.source.data}
+            preview={state.source.preview}
+            onClose={onClose}
+          />
+        ) : (
+          <ExternalImportView source={state.source} onClose={onClose} />
+        ))}
+    </Dialog>
+  );
+}
+
+// Backups of the current journal.
+export function BackupsSection() {
+  const queryClient = useQueryClient();
+  const journalId = useCurrentJournalId();
+  const { data: backups } = useQuery({
+    queryKey: ["backups", journalId],
+    queryFn: async () =>
+      (await getBackups()).filter((b) => b.journalId === journalId),
+  });
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+  const strings = useStrings().backups;
+
+  const restore = async (id: string) => {
+    if (!confirm(strings.confirmRestore)) return;
+    setRestoringId(id);
+    try {
+      await restoreBackup(id);
+      await finishImport(queryClient);
+    } catch (e) {
+      console.error("Failed to restore backup", e);
+      alert(getErrorMessage(e));
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  if (!backups) return null;
+
+  if (backups.length === 0) {
+    return <div className="text-xs text-gray-500">{strings.empty}</div>;
+  }
+
+  return (
+    <div className="flex flex-col text-xs">
+      {backups.map((backup) => (
+        <div
+          key={backup.id}
+          className="py-1 flex gap-2 items-center border-b border-gray-300"
+        >
+          <span className="flex-1">
+            {strings.info(
+              dateTimeFormat.format(backup.createdAt),
+              backup.data.data.message.length,
+              backup.data.data.summary.length,
+            )}
+          </span>
+          <button
+            className="px-2 py-1 bg-gray-100 rounded disabled:text-gray-300"
+            disabled={restoringId !== null}
+            onClick={() => restore(backup.id)}
+          >
+            {restoringId === backup.id ? strings.restoring : strings.restore}
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
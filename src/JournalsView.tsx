@@ -0,0 +1,180 @@
+import { useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import TextareaAutosize from "react-textarea-autosize";
+import { MdDelete, MdLibraryBooks } from "react-icons/md";
+import clsx from "clsx";
+import { Journal } from "./db.ts";
+import {
+  createJournal,
+  removeJournal,
+  setCurrentJournalId,
+  updateJournal,
+  useCurrentJournalId,
+  useJournals,
+} from "./journals.ts";
+import { Dialog } from "./Dialog.tsx";
+import { useStrings } from "./i18n.ts";
+
+const inputClassName = "border border-gray-300 rounded px-2 py-1 text-base";
+
+function getErrorMessage(e: unknown): string {
+  return e instanceof Error ? e.message : String(e);
+}
+
+function JournalView({
+  journal,
+  canRemove,
+}: {
+  journal: Journal;
+  canRemove: boolean;
+}) {
+  const queryClient = useQueryClient();
+  const [name, setName] = useState(journal.name);
+  const [systemPrompt, setSystemPrompt] = useState(journal.systemPrompt ?? "");
+  const strings = useStrings();
+  const isChanged =
+    name !== journal.name || systemPrompt !== (journal.systemPrompt ?? "");
+
+  const save = async () => {
+    try {
+      await updateJournal({
+        ...journal,
+        name: name.trim(),
+        systemPrompt: systemPrompt.trim() || null,
+      });
+      await queryClient.invalidateQueries({ queryKey: ["journals"] });
+    } catch (e) {
+      console.error("Failed to save journal", e);
+      alert(getErrorMessage(e));
+    }
+  };
+
+  const remove = async () => {
+    if (!confirm(strings.journals.confirmDelete(journal.name))) return;
+    try {
+      await removeJournal(journal.id);
+      await queryClient.invalidateQueries({ queryKey: ["journals"] });
+      await queryClient.invalidateQueries({ queryKey: ["chat"] });
+    } catch (e) {
+      console.error("Failed to delete journal", e);
+      alert(getErrorMessage(e));
+    }
+  };
+
+  return (
+    <div className="py-2 border-b border-gray-300 flex flex-col gap-1 text-xs">
+      <div className="flex gap-2 items-center">
+        <input
+          className={clsx(inputClassName, "flex-1")}
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+        />
+        <button
+          className="p-2 bg-gray-100 rounded active:bg-gray-400 disabled:text-gray-300"
+          disabled={!canRemove}
+          onClick={remove}
+        >
+          <MdDelete />
+        </button>
+      </div>
+      <label className="flex flex-col">
+        {strings.journals.systemPrompt}
+        <TextareaAutosize
+          className={inputClassName}
+          minRows={2}
+          placeholder={strings.journals.systemPromptPlaceholder}
+          value={systemPrompt}
+          onChange={(e) => setSystemPrompt(e.target.value)}
+        />
+      </label>
+      {isChanged && (
+        <div className="flex justify-end">
+          <button
+            className="px-2 py-1 bg-blue-300 rounded disabled:bg-gray-300"
+            disabled={name.trim() === ""}
+            onClick={save}
+          >
+            {strings.common.save}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function JournalsView({ onClose }: { onClose: () => void }) {
+  const queryClient = useQueryClient();
+  const journals = useJournals();
+  const [newName, setNewName] = useState("");
+  const strings = useStrings();
+
+  const create = async () => {
+    try {
+      const journal = await createJournal(newName.trim());
+      await queryClient.invalidateQueries({ queryKey: ["journals"] });
+      setCurrentJournalId(journal.id);
+      setNewName("");
+    } catch (e) {
+      console.error("Failed to create journal", e);
+      alert(getErrorMessage(e));
+    }
+  };
+
+  return (
+    <Dialog title={strings.journals.title} onClose={onClose}>
+      {journals.map((journal) => (
+        <JournalView
+          key={journal.id}
+          journal={journal}
+          canRemove={journals.length > 1}
+        />
+      ))}
+      <div className="pt-2 flex gap-2">
+        <input
+          className={clsx(inputClassName, "flex-1")}
+          placeholder={strings.journals.newJournal}
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+        />
+        <button
+          className="px-4 py-2 bg-blue-300 rounded disabled:bg-gray-300"
+          disabled={newName.trim() === ""}
+          onClick={create}
+        >
+          {strings.journals.create}
+        </button>
+      </div>
+    </Dialog>
+  );
+}
+
+export function JournalSwitcher() {
+  const journals = useJournals();
+  const journalId = useCurrentJournalId();
+  const [isManagerOpen, setManagerOpen] = useState(false);
+  const strings = useStrings();
+
+  return (
+    <div className="flex-1 flex gap-2 items-center min-w-0">
+      <select
+        className="min-w-0 max-w-full bg-transparent"
+        value={journalId}
+        onChange={(e) => setCurrentJournalId(e.target.value)}
+      >
+        {journals.map((journal) => (
+          <option key={journal.id} value={journal.id}>
+            {journal.name}
+          </option>
+        ))}
+      </select>
+      <button
+        className="p-2 bg-gray-100 rounded active:bg-gray-400"
+        title={strings.journals.manage}
+        onClick={() => setManagerOpen(true)}
+      >
+        <MdLibraryBooks />
+      </button>
+      {isManagerOpen && <JournalsView onClose={() => setManagerOpen(false)} />}
+    </div>
+  );
+}
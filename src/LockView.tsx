@@ -0,0 +1,279 @@
+import { ReactNode, useEffect, useState, useSyncExternalStore } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { MdLock } from "react-icons/md";
+import {
+  changePassphrase,
+  disableEncryption,
+  enableEncryption,
+  getLoadError,
+  isEncryptionEnabled,
+  lock,
+  startAutoLock,
+  unlock,
+  useEncryptionEnabled,
+  useLockStatus,
+} from "./encryption.ts";
+import { getSettings, subscribeSettings } from "./settings.ts";
+import { useStrings } from "./i18n.ts";
+
+const inputClassName = "border border-gray-300 rounded px-2 py-1 text-base";
+
+function getErrorMessage(e: unknown): string {
+  return e instanceof Error ? e.message : String(e);
+}
+
+function UnlockView() {
+  const [passphrase, setPassphrase] = useState("");
+  const [isUnlocking, setUnlocking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const strings = useStrings().encryption;
+
+  const submit = async () => {
+    setUnlocking(true);
+    setError(null);
+    try {
+      await unlock(passphrase);
+    } catch (e) {
+      console.error("Failed to unlock journal", e);
+      setError(getErrorMessage(e));
+      setUnlocking(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center px-4">
+      <form
+        className="w-full max-w-xs flex flex-col gap-2"
+        onSubmit={(e) => {
+          e.preventDefault();
+          submit();
+        }}
+      >
+        <div className="flex items-center gap-2">
+          <MdLock />
+          <span>GPT Journal</span>
+        </div>
+        <input
+          className={inputClassName}
+          type="password"
+          autoFocus
+          placeholder={strings.passphrase}
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+        />
+        {error && <div className="text-xs text-red-600">{error}</div>}
+        <button
+          className="px-4 py-2 bg-blue-300 rounded disabled:bg-gray-300"
+          disabled={passphrase === "" || isUnlocking}
+        >
+          {isUnlocking ? strings.unlocking : strings.unlock}
+        </button>
+      </form>
+    </div>
+  );
+}
+
+function LoadErrorView() {
+  const strings = useStrings().encryption;
+
+  return (
+    <div className="min-h-screen flex items-center justify-center px-4">
+      <div className="w-full max-w-xs flex flex-col gap-2">
+        <div className="flex items-center gap-2">
+          <MdLock />
+          <span>GPT Journal</span>
+        </div>
+        <div className="text-xs text-red-600">
+          {strings.loadFailed(getLoadError() ?? "")}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export function LockGate({
+  children,
+  onUnlock,
+}: {
+  children: ReactNode;
+  onUnlock: () => void;
+}) {
+  const queryClient = useQueryClient();
+  const status = useLockStatus();
+  const isEnabled = useEncryptionEnabled();
+  const autoLockMinutes = useSyncExternalStore(
+    subscribeSettings,
+    () => getSettings().autoLockMinutes,
+  );
+
+  useEffect(() => {
+    if (status === "locked") {
+      // Decrypted entries must not outlive the key in the query cache.
+      queryClient.clear();
+      return;
+    }
+    if (status === "unlocked") onUnlock();
+  }, [status, queryClient, onUnlock]);
+
+  // Restarted when encryption is turned on or the delay changes, not only
+  // on unlocking.
+  useEffect(() => {
+    if (status !== "unlocked" || !isEnabled) return;
+    return startAutoLock(autoLockMinutes);
+  }, [status, isEnabled, autoLockMinutes]);
+
+  if (status === "loading") return null;
+  if (status === "failed") return <LoadErrorView />;
+  if (status === "locked") return <UnlockView />;
+  return children;
+}
+
+type EncryptionAction = "enable" | "change" | "disable";
+
+export function EncryptionSection() {
+  const [isEnabled, setEnabled] = useState(isEncryptionEnabled);
+  const [action, setAction] = useState<EncryptionAction | null>(null);
+  const [current, setCurrent] = useState("");
+  const [next, setNext] = useState("");
+  const [repeated, setRepeated] = useState("");
+  const [isRunning, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const strings = useStrings();
+
+  const needsCurrent = action === "change" || action === "disable";
+  const needsNext = action === "enable" || action === "change";
+  const validationError =
+    needsNext && next !== repeated ? strings.encryption.mismatch : null;
+  const canRun =
+    !isRunning &&
+    !validationError &&
+    (!needsCurrent || current !== "") &&
+    (!needsNext || next !== "");
+
+  const start = (newAction: EncryptionAction) => {
+    setAction(newAction);
+    setCurrent("");
+    setNext("");
+    setRepeated("");
+    setError(null);
+  };
+
+  const run = async () => {
+    setRunning(true);
+    setError(null);
+    try {
+      if (action === "enable") await enableEncryption(next);
+      if (action === "change") await changePassphrase(current, next);
+      if (action === "disable") await disableEncryption(current);
+      setEnabled(isEncryptionEnabled());
+      setAction(null);
+    } catch (e) {
+      console.error("Failed to update encryption", e);
+      setError(getErrorMessage(e));
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-1 text-xs">
+      <div className="text-gray-500">
+        {isEnabled ? strings.encryption.enabled : strings.encryption.disabled}
+      </div>
+      {action === null && (
+        <div className="flex gap-2">
+          {isEnabled ? (
+            <>
+              <button
+                className="px-2 py-1 bg-gray-100 rounded"
+                onClick={() => start("change")}
+              >
+                {strings.encryption.change}
+              </button>
+              <button
+                className="px-2 py-1 bg-gray-100 rounded"
+                onClick={() => start("disable")}
+              >
+                {strings.encryption.disable}
+              </button>
+              <div className="flex-1" />
+              <button className="px-2 py-1 bg-gray-100 rounded" onClick={lock}>
+                {strings.encryption.lockNow}
+              </button>
+            </>
+          ) : (
+            <button
+              className="px-2 py-1 bg-gray-100 rounded"
+              onClick={() => start("enable")}
+            >
+              {strings.encryption.enable}
+            </button>
+          )}
+        </div>
+      )}
+      {action !== null && (
+        <>
+          {needsCurrent && (
+            <label className="flex flex-col">
+              {strings.encryption.current}
+              <input
+                className={inputClassName}
+                type="password"
+                value={current}
+                onChange={(e) => setCurrent(e.target.value)}
+              />
+            </label>
+          )}
+          {needsNext && (
+            <>
+              <label className="flex flex-col">
+                {strings.encryption.next}
+                <input
+                  className={inputClassName}
+                  type="password"
+                  autoComplete="new-password"
+                  value={next}
+                  onChange={(e) => setNext(e.target.value)}
+                />
+              </label>
+              <label className="flex flex-col">
+                {strings.encryption.repeat}
+                <input
+                  className={inputClassName}
+                  type="password"
+                  autoComplete="new-password"
+                  value={repeated}
+                  onChange={(e) => setRepeated(e.target.value)}
+                />
+              </label>
+              <div className="text-gray-500">
+                {strings.encryption.unrecoverable}
+              </div>
+            </>
+          )}
+          {(validationError || error) && (
+            <div className="text-red-600">{validationError ?? error}</div>
+          )}
+          <div className="flex gap-2">
+            <button
+              className="px-2 py-1 bg-gray-100 rounded"
+              disabled={isRunning}
+              onClick={() => setAction(null)}
+            >
+              {strings.common.cancel}
+            </button>
+            <button
+              className="px-2 py-1 bg-blue-300 rounded disabled:bg-gray-300"
+              disabled={!canRun}
+              onClick={run}
+            >
+              {isRunning
+                ? strings.encryption.reencrypting
+                : strings.encryption.apply}
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,206 @@
+import { useState } from "react";
+import { format, startOfDay, subDays } from "date-fns";
+import { Mood } from "./db.ts";
+import { MoodPoint, useMoodHistory } from "./mood.ts";
+import { useCurrentJournalId } from "./journals.ts";
+import { Dialog } from "./Dialog.tsx";
+import { dateFormat } from "./format.ts";
+import { useStrings } from "./i18n.ts";
+
+export function MoodSummaryView({ mood }: { mood: Mood }) {
+  const strings = useStrings().mood;
+  const parts = [strings.summary(mood.score)];
+  if (mood.emotions.length > 0) parts.push(mood.emotions.join(", "));
+  if (mood.energy !== null) parts.push(strings.energy(mood.energy));
+  if (mood.sleepHours !== null) parts.push(strings.sleep(mood.sleepHours));
+  return <div className="pt-1 text-xs text-gray-500">{parts.join(" · ")}</div>;
+}
+
+const RANGES = {
+  month: 30,
+  quarter: 90,
+  year: 365,
+  all: null,
+};
+
+type Range = keyof typeof RANGES;
+
+const CHART_WIDTH = 560;
+const CHART_HEIGHT = 200;
+const CHART_PADDING = 24;
+
+interface DayAverage {
+  date: Date;
+  score: number;
+  energy: number | null;
+}
+
+// Several entries a day would make the line jump up and down, so it goes
+// through the daily averages instead.
+function getDayAverages(points: MoodPoint[]): DayAverage[] {
+  const days = new Map<string, MoodPoint[]>();
+  for (const point of points) {
+    const day = format(point.date, "yyyy-MM-dd");
+    days.set(day, [...(days.get(day) ?? []), point]);
+  }
+
+  const average = (values: number[]) =>
+    values.length > 0
+      ? values.reduce((a, b) => a + b, 0) / values.length
+      : null;
+
+  return [...days.values()].map((list) => ({
+    date: startOfDay(list[0].date),
+    score: average(list.map((p) => p.mood.score)) ?? 0,
+    energy: average(
+      list.flatMap((p) => (p.mood.energy !== null ? [p.mood.energy] : [])),
+    ),
+  }));
+}
+
+function MoodChartView({ points }: { points: MoodPoint[] }) {
+  const days = getDayAverages(points);
+  const from = days[0].date.valueOf();
+  const to = days[days.length - 1].date.valueOf();
+
+  const x = (date: Date) =>
+    to === from
+      ? CHART_WIDTH / 2
+      : CHART_PADDING +
+        ((date.valueOf() - from) / (to - from)) *
+          (CHART_WIDTH - CHART_PADDING * 2);
+  const y = (score: number) =>
+    CHART_HEIGHT -
+    CHART_PADDING -
+    ((score - 1) / 9) * (CHART_HEIGHT - CHART_PADDING * 2);
+
+  const scoreLine = days.map((d) => `${x(d.date)},${y(d.score)}`).join(" ");
+  const energyLine = days
+    .flatMap((d) => (d.energy !== null ? [`${x(d.date)},${y(d.energy)}`] : []))
+    .join(" ");
+
+  return (
+    <svg
+      className="w-full"
+      viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+      role="img"
+    >
+      {[1, 5, 10].map((score) => (
+        <g key={score}>
+          <line
+            x1={CHART_PADDING}
+            x2={CHART_WIDTH - CHART_PADDING}
+            y1={y(score)}
+            y2={y(score)}
+            stroke="#e5e7eb"
+          />
+          <text x={4} y={y(score) + 4} fontSize={10} fill="#6b7280">
+            {score}
+          </text>
+        </g>
+      ))}
+      {energyLine && (
+        <polyline
+          points={energyLine}
+          fill="none"
+          stroke="#fbbf24"
+          strokeDasharray="4 3"
+        />
+      )}
+      <polyline points={scoreLine} fill="none" stroke="#3b82f6" />
+      {points.map((point) => (
+        <circle
+          key={point.id}
+          cx={x(startOfDay(point.date))}
+          cy={y(point.mood.score)}
+          r={2}
+          fill="#3b82f6"
+        />
+      ))}
+      <text x={CHART_PADDING} y={CHART_HEIGHT - 6} fontSize={10} fill="#6b7280">
+        {dateFormat.format(days[0].date)}
+      </text>
+      <text
+        x={CHART_WIDTH - CHART_PADDING}
+        y={CHART_HEIGHT - 6}
+        fontSize={10}
+        fill="#6b7280"
+        textAnchor="end"
+      >
+        {dateFormat.format(days[days.length - 1].date)}
+      </text>
+    </svg>
+  );
+}
+
+const TOP_EMOTIONS = 10;
+
+function getTopEmotions(points: MoodPoint[]): [string, number][] {
+  const counts = new Map<string, number>();
+  for (const point of points) {
+    for (const emotion of point.mood.emotions) {
+      counts.set(emotion, (counts.get(emotion) ?? 0) + 1);
+    }
+  }
+  return [...counts].sort((a, b) => b[1] - a[1]).slice(0, TOP_EMOTIONS);
+}
+
+function getAverageSleep(points: MoodPoint[]): number | null {
+  const hours = points.flatMap((p) =>
+    p.mood.sleepHours !== null ? [p.mood.sleepHours] : [],
+  );
+  if (hours.length === 0) return null;
+  return hours.reduce((a, b) => a + b, 0) / hours.length;
+}
+
+export function MoodView({ onClose }: { onClose: () => void }) {
+  const history = useMoodHistory(useCurrentJournalId());
+  const [range, setRange] = useState<Range>("month");
+  const strings = useStrings().mood;
+
+  const days = RANGES[range];
+  const since = days === null ? null : subDays(startOfDay(new Date()), days);
+  const points = since ? history.filter((p) => p.date >= since) : history;
+  const emotions = getTopEmotions(points);
+  const averageSleep = getAverageSleep(points);
+
+  return (
+    <Dialog title={strings.title} onClose={onClose}>
+      <div className="pb-2 flex gap-2 text-xs">
+        {(Object.keys(RANGES) as Range[]).map((key) => (
+          <label key={key} className="flex gap-1 items-center">
+            <input
+              type="radio"
+              checked={range === key}
+              onChange={() => setRange(key)}
+            />
+            {strings.ranges[key]}
+          </label>
+        ))}
+      </div>
+      {points.length === 0 ? (
+        <div className="text-xs text-gray-500">{strings.empty}</div>
+      ) : (
+        <>
+          <MoodChartView points={points} />
+          <div className="pb-2 flex gap-4 text-xs text-gray-500">
+            <span className="text-blue-500">{strings.moodLine}</span>
+            <span className="text-amber-400">{strings.energyLine}</span>
+            {averageSleep !== null && (
+              <span>{strings.averageSleep(averageSleep.toFixed(1))}</span>
+            )}
+          </div>
+          {emotions.length > 0 && (
+            <ul className="text-xs">
+              {emotions.map(([emotion, count]) => (
+                <li key={emotion}>
+                  {emotion}: {count}
+                </li>
+              ))}
+            </ul>
+          )}
+        </>
+      )}
+    </Dialog>
+  );
+}
@@ -0,0 +1,172 @@
+import { useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { MdDelete, MdEdit } from "react-icons/md";
+import { ProfileFact } from "./db.ts";
+import { deleteProfileFact, setProfileFact, useProfile } from "./profile.ts";
+import { useCurrentJournalId } from "./journals.ts";
+import { getSettings } from "./settings.ts";
+import { Dialog } from "./Dialog.tsx";
+import { dateTimeFormat } from "./format.ts";
+import { useStrings } from "./i18n.ts";
+
+function FactView({
+  fact,
+  isBusy,
+  onSave,
+  onDelete,
+}: {
+  fact: ProfileFact;
+  isBusy: boolean;
+  onSave: (text: string) => Promise<void>;
+  onDelete: () => void;
+}) {
+  const [editedText, setEditedText] = useState<string | null>(null);
+  const strings = useStrings();
+
+  const save = async () => {
+    if (editedText === null) return;
+    await onSave(editedText);
+    setEditedText(null);
+  };
+
+  if (editedText !== null) {
+    return (
+      <div className="py-1 flex gap-2 items-center text-xs border-b border-gray-300">
+        <input
+          className="flex-1 border border-gray-300 rounded px-2 py-1 text-base"
+          autoFocus
+          value={editedText}
+          onChange={(e) => setEditedText(e.target.value)}
+        />
+        <button
+          className="px-2 py-1 bg-gray-100 rounded"
+          disabled={isBusy}
+          onClick={() => setEditedText(null)}
+        >
+          {strings.common.cancel}
+        </button>
+        <button
+          className="px-2 py-1 bg-blue-300 rounded disabled:bg-gray-300"
+          disabled={isBusy || editedText.trim() === ""}
+          onClick={save}
+        >
+          {strings.common.save}
+        </button>
+      </div>
+    );
+  }
+
+  const actionClassName =
+    "p-1 bg-gray-100 rounded active:bg-gray-400 disabled:text-gray-300";
+
+  return (
+    <div className="py-1 flex gap-1 items-start text-xs border-b border-gray-300">
+      <div className="flex-1">
+        <div className="whitespace-pre-wrap">{fact.text}</div>
+        <div className="text-gray-500">
+          {dateTimeFormat.format(fact.updatedAt)}
+          {fact.source === "manual" && `, ${strings.profile.byUser}`}
+        </div>
+      </div>
+      <button
+        className={actionClassName}
+        disabled={isBusy}
+        title={strings.profile.edit}
+        onClick={() => setEditedText(fact.text)}
+      >
+        <MdEdit />
+      </button>
+      <button
+        className={actionClassName}
+        disabled={isBusy}
+        title={strings.profile.delete}
+        onClick={onDelete}
+      >
+        <MdDelete />
+      </button>
+    </div>
+  );
+}
+
+// The facts the model keeps about the user, which the user can correct.
+export function ProfileView({ onClose }: { onClose: () => void }) {
+  const queryClient = useQueryClient();
+  const journalId = useCurrentJournalId();
+  const facts = useProfile(journalId);
+  const [newFact, setNewFact] = useState("");
+  const [isBusy, setBusy] = useState(false);
+  const strings = useStrings();
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    try {
+      await action();
+      // The profile is part of every prompt.
+      await queryClient.invalidateQueries({
+        queryKey: ["chat", "profile", journalId],
+      });
+      await queryClient.invalidateQueries({
+        queryKey: ["chat", "context", journalId],
+      });
+    } catch (e) {
+      console.error("Failed to save profile", e);
+      alert(strings.profile.saveFailed);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const add = () =>
+    run(async () => {
+      await setProfileFact(journalId, null, newFact);
+      setNewFact("");
+    });
+
+  const remove = (fact: ProfileFact) => {
+    if (!confirm(strings.profile.confirmDelete)) return;
+    run(() => deleteProfileFact(journalId, fact.id));
+  };
+
+  return (
+    <Dialog title={strings.profile.title} onClose={onClose}>
+      <div className="pb-2 text-xs text-gray-500">
+        {strings.profile.description}
+      </div>
+      {!getSettings().profileMemory && (
+        <div className="pb-2 text-xs text-orange-600">
+          {strings.profile.off}
+        </div>
+      )}
+      {facts === undefined && (
+        <div className="text-xs">{strings.common.loading}</div>
+      )}
+      {facts?.length === 0 && (
+        <div className="pb-2 text-xs">{strings.profile.empty}</div>
+      )}
+      {facts?.map((fact) => (
+        <FactView
+          key={fact.id}
+          fact={fact}
+          isBusy={isBusy}
+          onSave={(text) => run(() => setProfileFact(journalId, fact.id, text))}
+          onDelete={() => remove(fact)}
+        />
+      ))}
+      <div className="pt-2 flex gap-2 items-center text-xs">
+        <input
+          className="flex-1 border border-gray-300 rounded px-2 py-1 text-base"
+          placeholder={strings.profile.newFact}
+          value={newFact}
+          onChange={(e) => setNewFact(e.target.value)}
+        />
+        <button
+          className="px-2 py-1 bg-blue-300 rounded disabled:bg-gray-300"
+          disabled={isBusy || newFact.trim() === ""}
+          onClick={add}
+        >
+          {strings.profile.add}
+        </button>
+      </div>
+    </Dialog>
+  );
+}
@@ -0,0 +1,272 @@
+import {
+  createProfile,
+  getContextWindow,
+  PROVIDER_PRESETS,
+  PROVIDER_ROLES,
+  ProviderProfile,
+  ProviderRole,
+  ProviderSettings,
+  supportsVision,
+} from "./providers.ts";
+import { useState } from "react";
+import {
+  MdDelete,
+  MdNetworkCheck,
+  MdVisibility,
+  MdVisibilityOff,
+} from "react-icons/md";
+import clsx from "clsx";
+import { describeRequestError, testConnection } from "./ai.ts";
+import { useStrings } from "./i18n.ts";
+
+type TestStatus =
+  | { state: "idle" }
+  | { state: "testing" }
+  | { state: "ok" }
+  | { state: "failed"; error: string };
+
+function ProfileView({
+  profile,
+  roles,
+  onChange,
+  onRemove,
+}: {
+  profile: ProviderProfile;
+  roles: ProviderRole[];
+  onChange: (patch: Partial<ProviderProfile>) => void;
+  onRemove: () => void;
+}) {
+  const [isKeyVisible, setKeyVisible] = useState(false);
+  const [testStatus, setTestStatus] = useState<TestStatus>({ state: "idle" });
+  const strings = useStrings().providers;
+
+  const inputClassName = "border border-gray-300 rounded px-2 py-1 text-base";
+
+  const test = async () => {
+    setTestStatus({ state: "testing" });
+    try {
+      // A profile used only for embeddings or transcription usually can't do
+      // chat completions.
+      const kind =
+        roles.length > 0 && roles.every((r) => r === roles[0])
+          ? roles[0]
+          : "chat";
+      await testConnection(profile, kind === "summary" ? "chat" : kind);
+      setTestStatus({ state: "ok" });
+    } catch (e) {
+      console.error("Connection test failed", e);
+      setTestStatus({ state: "failed", error: describeRequestError(e) });
+    }
+  };
+
+  return (
+    <div className="py-2 border-b border-gray-300 flex flex-col gap-1 text-xs">
+      <div className="flex gap-2 items-center">
+        <input
+          className={clsx(inputClassName, "flex-1")}
+          value={profile.name}
+          onChange={(e) => onChange({ name: e.target.value })}
+        />
+        <button
+          className="p-2 bg-gray-100 rounded active:bg-gray-400 disabled:text-gray-300"
+          disabled={testStatus.state === "testing"}
+          title={strings.testConnection}
+          onClick={test}
+        >
+          <MdNetworkCheck />
+        </button>
+        <button
+          className="p-2 bg-gray-100 rounded active:bg-gray-400 disabled:text-gray-300"
+          disabled={roles.length > 0}
+          onClick={onRemove}
+        >
+          <MdDelete />
+        </button>
+      </div>
+      {roles.length > 0 && (
+        <div className="text-gray-500">
+          {strings.usedFor(roles.map((r) => strings.roles[r]).join(", "))}
+        </div>
+      )}
+      <label className="flex flex-col">
+        {strings.baseUrl}
+        <input
+          className={inputClassName}
+          value={profile.baseUrl}
+          onChange={(e) => onChange({ baseUrl: e.target.value })}
+        />
+      </label>
+      <div className="flex flex-col">
+        {strings.apiKey}
+        <div className="flex gap-2">
+          <input
+            className={clsx(inputClassName, "flex-1")}
+            type={isKeyVisible ? "text" : "password"}
+            autoComplete="off"
+            value={profile.apiKey}
+            onChange={(e) => onChange({ apiKey: e.target.value })}
+          />
+          <button
+            className="p-2 bg-gray-100 rounded active:bg-gray-400"
+            onClick={() => setKeyVisible(!isKeyVisible)}
+          >
+            {isKeyVisible ? <MdVisibilityOff /> : <MdVisibility />}
+          </button>
+        </div>
+      </div>
+      <div className="flex gap-2">
+        <label className="flex-1 flex flex-col">
+          {strings.model}
+          <input
+            className={inputClassName}
+            value={profile.model}
+            onChange={(e) => onChange({ model: e.target.value })}
+          />
+        </label>
+        <label className="flex flex-col w-24">
+          {strings.temperature}
+          <input
+            className={inputClassName}
+            type="number"
+            min={0}
+            max={2}
+            step={0.1}
+            value={profile.temperature}
+            onChange={(e) => onChange({ temperature: Number(e.target.value) })}
+          />
+        </label>
+      </div>
+      <label className="flex flex-col">
+        {strings.contextWindow}
+        <input
+          className={inputClassName}
+          type="number"
+          min={1024}
+          step={1024}
+          placeholder={String(
+            getContextWindow({ ...profile, contextWindow: undefined }),
+          )}
+          value={profile.contextWindow ?? ""}
+          onChange={(e) =>
+            onChange({
+              contextWindow:
+                e.target.value === "" ? undefined : Number(e.target.value),
+            })
+          }
+        />
+      </label>
+      <label className="flex gap-2 items-center">
+        <input
+          type="checkbox"
+          checked={profile.developerRole}
+          onChange={(e) => onChange({ developerRole: e.target.checked })}
+        />
+        {strings.developerRole}
+      </label>
+      <label className="flex gap-2 items-center">
+        <input
+          type="checkbox"
+          checked={supportsVision(profile)}
+          onChange={(e) => onChange({ vision: e.target.checked })}
+        />
+        {strings.vision}
+      </label>
+      {testStatus.state === "testing" && (
+        <div className="text-gray-500">{strings.testing}</div>
+      )}
+      {testStatus.state === "ok" && (
+        <div className="text-green-700">{strings.works}</div>
+      )}
+      {testStatus.state === "failed" && (
+        <div className="text-red-600">{testStatus.error}</div>
+      )}
+    </div>
+  );
+}
+
+export function ProvidersSection({
+  settings,
+  onChange,
+}: {
+  settings: ProviderSettings;
+  onChange: (settings: ProviderSettings) => void;
+}) {
+  const strings = useStrings().providers;
+
+  const changeProfile = (id: string, patch: Partial<ProviderProfile>) => {
+    onChange({
+      ...settings,
+      profiles: settings.profiles.map((p) =>
+        p.id === id ? { ...p, ...patch } : p,
+      ),
+    });
+  };
+
+  const removeProfile = (id: string) => {
+    onChange({
+      ...settings,
+      profiles: settings.profiles.filter((p) => p.id !== id),
+    });
+  };
+
+  const addProfile = (presetName: string) => {
+    const preset = PROVIDER_PRESETS.find((p) => p.name === presetName);
+    if (!preset) return;
+    onChange({
+      ...settings,
+      profiles: [...settings.profiles, createProfile(preset)],
+    });
+  };
+
+  const changeRole = (role: ProviderRole, id: string) => {
+    onChange({ ...settings, roles: { ...settings.roles, [role]: id } });
+  };
+
+  return (
+    <div>
+      <div className="flex flex-col gap-1 text-xs">
+        {PROVIDER_ROLES.map((role) => (
+          <label key={role} className="flex gap-2 items-center">
+            <span className="w-28">{strings.roles[role]}</span>
+            <select
+              className="flex-1 border border-gray-300 rounded px-2 py-1 text-base"
+              value={settings.roles[role]}
+              onChange={(e) => changeRole(role, e.target.value)}
+            >
+              {settings.profiles.map((p) => (
+                <option key={p.id} value={p.id}>
+                  {p.name}
+                </option>
+              ))}
+            </select>
+          </label>
+        ))}
+      </div>
+      {settings.profiles.map((profile) => (
+        <ProfileView
+          key={profile.id}
+          profile={profile}
+          roles={PROVIDER_ROLES.filter(
+            (role) => settings.roles[role] === profile.id,
+          )}
+          onChange={(patch) => changeProfile(profile.id, patch)}
+          onRemove={() => removeProfile(profile.id)}
+        />
+      ))}
+      <select
+        className="mt-2 w-full border border-gray-300 rounded px-2 py-1 text-base"
+        value=""
+        onChange={(e) => addProfile(e.target.value)}
+      >
+        <option value="" disabled>
+          {strings.addProfile}
+        </option>
+        {PROVIDER_PRESETS.map((p) => (
+          <option key={p.name} value={p.name}>
+            {p.name}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
@@ -0,0 +1,166 @@
+import { useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { subDays } from "date-fns";
+import { MdChevronLeft, MdChevronRight } from "react-icons/md";
+import { Report, ReportContent, ReportPeriod } from "./db.ts";
+import {
+  findReport,
+  generateReport,
+  getPeriodStart,
+  shiftPeriod,
+  useReports,
+} from "./reports.ts";
+import { useCurrentJournalId } from "./journals.ts";
+import { Dialog } from "./Dialog.tsx";
+import { dateTimeFormat, dayFormat, monthFormat } from "./format.ts";
+import { useStrings } from "./i18n.ts";
+
+function formatPeriod(period: ReportPeriod, start: Date): string {
+  if (period === "month") return monthFormat.format(start);
+  const end = subDays(shiftPeriod(period, start, 1), 1);
+  return `${dayFormat.format(start)} — ${dayFormat.format(end)}`;
+}
+
+function ReportContentView({ report }: { report: Report }) {
+  const strings = useStrings().reports;
+
+  return (
+    <div className="flex flex-col gap-2 text-xs">
+      {Object.entries(strings.sections).map(([section, title]) => {
+        const items = report.content[section as keyof ReportContent];
+        if (items.length === 0) return null;
+        return (
+          <div key={section}>
+            <div className="font-bold">{title}</div>
+            <ul className="list-disc pl-4">
+              {items.map((item, index) => (
+                <li key={index}>{item}</li>
+              ))}
+            </ul>
+          </div>
+        );
+      })}
+      <div className="text-gray-500">
+        {strings.madeFrom(
+          dateTimeFormat.format(report.createdAt),
+          report.messageCount,
+        )}
+      </div>
+    </div>
+  );
+}
+
+export function ReportsView({ onClose }: { onClose: () => void }) {
+  const queryClient = useQueryClient();
+  const journalId = useCurrentJournalId();
+  const reports = useReports(journalId);
+  const [period, setPeriod] = useState<ReportPeriod>("week");
+  const [start, setStart] = useState(() => getPeriodStart("week", new Date()));
+  const [isComparing, setComparing] = useState(false);
+  const [isGenerating, setGenerating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const strings = useStrings().reports;
+
+  const previousStart = shiftPeriod(period, start, -1);
+  const report = findReport(reports, period, start);
+  const previous = findReport(reports, period, previousStart);
+
+  const changePeriod = (newPeriod: ReportPeriod) => {
+    setPeriod(newPeriod);
+    setStart(getPeriodStart(newPeriod, start));
+    setError(null);
+  };
+
+  const move = (amount: number) => {
+    setStart(shiftPeriod(period, start, amount));
+    setError(null);
+  };
+
+  const generate = async () => {
+    setGenerating(true);
+    setError(null);
+    try {
+      await generateReport(journalId, period, start);
+      await queryClient.invalidateQueries({ queryKey: ["reports"] });
+    } catch (e) {
+      console.error("Failed to generate report", e);
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  return (
+    <Dialog title={strings.title} onClose={onClose}>
+      <div className="pb-2 flex gap-2 text-xs">
+        {(["week", "month"] as const).map((value) => (
+          <label key={value} className="flex gap-1 items-center">
+            <input
+              type="radio"
+              checked={period === value}
+              onChange={() => changePeriod(value)}
+            />
+            {value === "week" ? strings.weekly : strings.monthly}
+          </label>
+        ))}
+      </div>
+      <div className="pb-2 flex gap-2 items-center">
+        <button
+          className="p-2 bg-gray-100 rounded active:bg-gray-400"
+          onClick={() => move(-1)}
+        >
+          <MdChevronLeft />
+        </button>
+        <div className="flex-1 text-center">{formatPeriod(period, start)}</div>
+        <button
+          className="p-2 bg-gray-100 rounded active:bg-gray-400"
+          onClick={() => move(1)}
+        >
+          <MdChevronRight />
+        </button>
+      </div>
+      {report ? (
+        <ReportContentView report={report} />
+      ) : (
+        <div className="text-xs text-gray-500">{strings.empty}</div>
+      )}
+      {error && (
+        <div className="pt-2 text-xs text-red-600 whitespace-pre-wrap">
+          {error}
+        </div>
+      )}
+      <div className="pt-2 flex gap-2 items-center">
+        <label className="flex gap-1 items-center text-xs">
+          <input
+            type="checkbox"
+            checked={isComparing}
+            onChange={(e) => setComparing(e.target.checked)}
+          />
+          {strings.showPrevious}
+        </label>
+        <div className="flex-1" />
+        <button
+          className="px-4 py-2 bg-blue-300 rounded disabled:bg-gray-300"
+          disabled={isGenerating}
+          onClick={generate}
+        >
+          {isGenerating
+            ? strings.generating
+            : report
+              ? strings.regenerate
+              : strings.generate}
+        </button>
+      </div>
+      {isComparing && (
+        <div className="mt-2 pt-2 border-t border-gray-300">
+          <div className="pb-1">{formatPeriod(period, previousStart)}</div>
+          {previous ? (
+            <ReportContentView report={previous} />
+          ) : (
+            <div className="text-xs text-gray-500">{strings.emptyPrevious}</div>
+          )}
+        </div>
+      )}
+    </Dialog>
+  );
+}
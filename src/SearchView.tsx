@@ -0,0 +1,115 @@
+import { SearchResult, SearchSnippet, useSearchJournal } from "./search.ts";
+import { useDeferredValue, useState } from "react";
+import { endOfDay, parseISO, startOfDay } from "date-fns";
+import { Dialog } from "./Dialog.tsx";
+import { dateTimeFormat } from "./format.ts";
+import { useCurrentJournalId } from "./journals.ts";
+import { useStrings } from "./i18n.ts";
+
+function SnippetView({ snippet }: { snippet: SearchSnippet }) {
+  const strings = useStrings().chat;
+
+  return (
+    <div className="text-xs">
+      <span className="pr-1 text-gray-500">{strings[snippet.field]}</span>
+      {snippet.parts.map((part, index) =>
+        part.highlight ? (
+          <mark key={index} className="bg-yellow-200">
+            {part.text}
+          </mark>
+        ) : (
+          <span key={index}>{part.text}</span>
+        ),
+      )}
+    </div>
+  );
+}
+
+export function SearchResultView({
+  result,
+  onClick,
+}: {
+  result: SearchResult;
+  onClick: () => void;
+}) {
+  const strings = useStrings().search;
+
+  return (
+    <button
+      className="w-full text-left px-2 py-2 border-b border-gray-300 active:bg-gray-100"
+      onClick={onClick}
+    >
+      <div className="pb-1 flex justify-between items-baseline text-xs text-gray-500">
+        <span>{result.path.length > 0 ? strings.archived : ""}</span>
+        <span>{dateTimeFormat.format(result.date)}</span>
+      </div>
+      {result.snippets.map((snippet) => (
+        <SnippetView key={snippet.field} snippet={snippet} />
+      ))}
+    </button>
+  );
+}
+
+export function SearchView({
+  onClose,
+  onNavigate,
+}: {
+  onClose: () => void;
+  onNavigate: (result: SearchResult) => void;
+}) {
+  const [text, setText] = useState("");
+  const [dateFrom, setDateFrom] = useState("");
+  const [dateTo, setDateTo] = useState("");
+  const strings = useStrings();
+
+  const results = useSearchJournal({
+    journalId: useCurrentJournalId(),
+    text: useDeferredValue(text),
+    dateFrom: dateFrom ? startOfDay(parseISO(dateFrom)) : null,
+    dateTo: dateTo ? endOfDay(parseISO(dateTo)) : null,
+  });
+
+  const inputClassName = "border border-gray-300 rounded px-2 py-1 text-base";
+
+  return (
+    <Dialog title={strings.search.title} onClose={onClose}>
+      <div className="flex flex-col gap-1 pb-2">
+        <input
+          className={inputClassName}
+          type="search"
+          placeholder={strings.search.placeholder}
+          autoFocus
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+        />
+        <div className="flex gap-2 text-xs">
+          <label className="flex-1 flex flex-col">
+            {strings.common.from}
+            <input
+              className={inputClassName}
+              type="date"
+              value={dateFrom}
+              onChange={(e) => setDateFrom(e.target.value)}
+            />
+          </label>
+          <label className="flex-1 flex flex-col">
+            {strings.common.to}
+            <input
+              className={inputClassName}
+              type="date"
+              value={dateTo}
+              onChange={(e) => setDateTo(e.target.value)}
+            />
+          </label>
+        </div>
+      </div>
+      {results.map((result) => (
+        <SearchResultView
+          key={result.id}
+          result={result}
+          onClick={() => onNavigate(result)}
+        />
+      ))}
+    </Dialog>
+  );
+}
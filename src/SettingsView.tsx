@@ -0,0 +1,213 @@
+import {
+  getDefaultSettings,
+  getSettings,
+  saveSettings,
+  Settings,
+  validateSettings,
+} from "./settings.ts";
+import {
+  getDefaultProviderSettings,
+  getProviderSettings,
+  ProviderSettings,
+  saveProviderSettings,
+  validateProviderSettings,
+} from "./providers.ts";
+import { ReactNode, useState } from "react";
+import TextareaAutosize from "react-textarea-autosize";
+import { Dialog } from "./Dialog.tsx";
+import { ProvidersSection } from "./ProvidersView.tsx";
+import { indexEmbeddings, recountTokensIfNeeded } from "./ai.ts";
+import { EncryptionSection } from "./LockView.tsx";
+import { BackupsSection } from "./ImportView.tsx";
+import {
+  getLocale,
+  Locale,
+  LOCALE_NAMES,
+  LOCALES,
+  setLocale,
+  useStrings,
+} from "./i18n.ts";
+
+function Section({ title, children }: { title: string; children: ReactNode }) {
+  return (
+    <div className="pb-4">
+      <div className="pb-1 border-b border-gray-300">{title}</div>
+      <div className="pt-1">{children}</div>
+    </div>
+  );
+}
+
+export function SettingsView({ onClose }: { onClose: () => void }) {
+  const [settings, setSettings] = useState<Settings>(getSettings);
+  const [providers, setProviders] =
+    useState<ProviderSettings>(getProviderSettings);
+  const [locale, changeLocale] = useState<Locale>(getLocale);
+  const strings = useStrings();
+
+  const errors = [
+    ...validateProviderSettings(providers),
+    ...validateSettings(settings),
+  ];
+
+  const change = (patch: Partial<Settings>) => {
+    setSettings({ ...settings, ...patch });
+  };
+
+  const reset = () => {
+    if (!confirm(strings.settings.confirmReset)) return;
+    setSettings(getDefaultSettings());
+    setProviders(getDefaultProviderSettings());
+  };
+
+  const save = async () => {
+    try {
+      await saveProviderSettings(providers);
+      saveSettings(settings);
+      setLocale(locale);
+      recountTokensIfNeeded().catch((e) =>
+        console.error("Failed to recount tokens", e),
+      );
+      indexEmbeddings().catch((e) =>
+        console.error("Failed to index embeddings", e),
+      );
+      onClose();
+    } catch (e) {
+      console.error("Failed to save settings", e);
+      alert(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  const inputClassName = "border border-gray-300 rounded px-2 py-1 text-base";
+
+  return (
+    <Dialog title={strings.settings.title} onClose={onClose}>
+      <Section title={strings.settings.language}>
+        <select
+          className={inputClassName}
+          value={locale}
+          onChange={(e) => changeLocale(e.target.value as Locale)}
+        >
+          {LOCALES.map((l) => (
+            <option key={l} value={l}>
+              {LOCALE_NAMES[l]}
+            </option>
+          ))}
+        </select>
+      </Section>
+      <Section title={strings.settings.providers}>
+        <ProvidersSection settings={providers} onChange={setProviders} />
+      </Section>
+      <Section title={strings.settings.prompts}>
+        <div className="flex flex-col gap-1 text-xs">
+          <div className="text-gray-500">{strings.settings.promptsNote}</div>
+          <label className="flex flex-col">
+            {strings.settings.chatSystemPrompt}
+            <TextareaAutosize
+              className={inputClassName}
+              minRows={3}
+              value={settings.chatSystemPrompt}
+              onChange={(e) => change({ chatSystemPrompt: e.target.value })}
+            />
+          </label>
+          <label className="flex flex-col">
+            {strings.settings.compressSystemPrompt}
+            <TextareaAutosize
+              className={inputClassName}
+              minRows={3}
+              value={settings.compressSystemPrompt}
+              onChange={(e) => change({ compressSystemPrompt: e.target.value })}
+            />
+          </label>
+          <label className="flex flex-col">
+            {strings.settings.compressInstruction}
+            <TextareaAutosize
+              className={inputClassName}
+              minRows={1}
+              value={settings.compressInstruction}
+              onChange={(e) => change({ compressInstruction: e.target.value })}
+            />
+          </label>
+        </div>
+      </Section>
+      <Section title={strings.settings.summarization}>
+        <label className="flex flex-col text-xs">
+          {strings.settings.minSummaryTokens}
+          <input
+            className={inputClassName}
+            type="number"
+            min={500}
+            step={500}
+            value={settings.minSummaryTokens}
+            onChange={(e) =>
+              change({ minSummaryTokens: Number(e.target.value) })
+            }
+          />
+        </label>
+      </Section>
+      <Section title={strings.settings.entryReading}>
+        <label className="flex gap-2 items-center text-xs">
+          <input
+            type="checkbox"
+            checked={settings.moodTracking}
+            onChange={(e) => change({ moodTracking: e.target.checked })}
+          />
+          {strings.settings.moodTracking}
+        </label>
+        <label className="flex gap-2 items-center text-xs">
+          <input
+            type="checkbox"
+            checked={settings.autoTagging}
+            onChange={(e) => change({ autoTagging: e.target.checked })}
+          />
+          {strings.settings.autoTagging}
+        </label>
+        <label className="flex gap-2 items-center text-xs">
+          <input
+            type="checkbox"
+            checked={settings.profileMemory}
+            onChange={(e) => change({ profileMemory: e.target.checked })}
+          />
+          {strings.settings.profileMemory}
+        </label>
+      </Section>
+      <Section title={strings.settings.encryption}>
+        <EncryptionSection />
+        <label className="pt-2 flex flex-col text-xs">
+          {strings.settings.autoLockMinutes}
+          <input
+            className={inputClassName}
+            type="number"
+            min={1}
+            value={settings.autoLockMinutes}
+            onChange={(e) =>
+              change({ autoLockMinutes: Number(e.target.value) })
+            }
+          />
+        </label>
+      </Section>
+      <Section title={strings.settings.backups}>
+        <BackupsSection />
+      </Section>
+      {errors.length > 0 && (
+        <ul className="pb-2 text-xs text-red-600">
+          {errors.map((error) => (
+            <li key={error}>{error}</li>
+          ))}
+        </ul>
+      )}
+      <div className="flex gap-2">
+        <button className="px-4 py-2 bg-gray-100 rounded" onClick={reset}>
+          {strings.settings.reset}
+        </button>
+        <div className="flex-1" />
+        <button
+          className="px-4 py-2 bg-blue-300 rounded disabled:bg-gray-300"
+          disabled={errors.length > 0}
+          onClick={save}
+        >
+          {strings.common.save}
+        </button>
+      </div>
+    </Dialog>
+  );
+}
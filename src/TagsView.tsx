@@ -0,0 +1,91 @@
+import { useContext, useState } from "react";
+import { MdArrowBack } from "react-icons/md";
+import { useCurrentJournalId } from "./journals.ts";
+import { TagContext, useJournalTags, useTagResults } from "./tags.ts";
+import { SearchResult } from "./search.ts";
+import { Dialog } from "./Dialog.tsx";
+import { SearchResultView } from "./SearchView.tsx";
+import { useStrings } from "./i18n.ts";
+
+export function TagListView({ tags }: { tags: string[] }) {
+  const openTag = useContext(TagContext);
+
+  return (
+    <div className="pt-1 flex flex-wrap gap-1 text-xs">
+      {tags.map((tag) => (
+        <button
+          key={tag}
+          className="px-1 bg-blue-50 text-blue-700 rounded active:bg-blue-200"
+          onClick={() => openTag(tag)}
+        >
+          #{tag}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+function TagResultsView({
+  tag,
+  onNavigate,
+}: {
+  tag: string;
+  onNavigate: (result: SearchResult) => void;
+}) {
+  const results = useTagResults(useCurrentJournalId(), tag);
+
+  return results.map((result) => (
+    <SearchResultView
+      key={result.id}
+      result={result}
+      onClick={() => onNavigate(result)}
+    />
+  ));
+}
+
+export function TagsView({
+  initialTag,
+  onClose,
+  onNavigate,
+}: {
+  initialTag: string | null;
+  onClose: () => void;
+  onNavigate: (result: SearchResult) => void;
+}) {
+  const tags = useJournalTags(useCurrentJournalId());
+  const [tag, setTag] = useState(initialTag);
+  const strings = useStrings().tags;
+
+  if (tag !== null) {
+    return (
+      <Dialog title={`#${tag}`} onClose={onClose}>
+        <button
+          className="mb-2 p-2 bg-gray-100 rounded active:bg-gray-400"
+          onClick={() => setTag(null)}
+        >
+          <MdArrowBack />
+        </button>
+        <TagResultsView tag={tag} onNavigate={onNavigate} />
+      </Dialog>
+    );
+  }
+
+  return (
+    <Dialog title={strings.title} onClose={onClose}>
+      {tags.length === 0 && (
+        <div className="text-xs text-gray-500">{strings.empty}</div>
+      )}
+      <div className="flex flex-wrap gap-1 text-xs">
+        {tags.map(([name, count]) => (
+          <button
+            key={name}
+            className="px-1 bg-blue-50 text-blue-700 rounded active:bg-blue-200"
+            onClick={() => setTag(name)}
+          >
+            #{name} <span className="text-gray-500">{count}</span>
+          </button>
+        ))}
+      </div>
+    </Dialog>
+  );
+}
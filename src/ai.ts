@@ -3,17 +3,37 @@ import {
   DBSummary,
   getActiveMessages,
   getActiveSummaries,
+  getAllEmbeddings,
+  getAllMessages,
+  getAllSummaries,
+  getEmbeddings,
+  getJournalMessages,
+  getJournalSummaries,
+  getMessage,
+  getMessagesBySummaryId,
+  getProfile,
+  getSummariesByParentId,
+  putEmbeddings,
   updateData,
+  updateTokenCounts,
 } from "./db.ts";
-import { useCallback } from "react";
-import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useQuery } from "@tanstack/react-query";
 import { format } from "date-fns";
 import axios from "axios";
 import { v4 as uuidv4 } from "uuid";
+import { getProvider, ProviderProfile, ProviderRole } from "./providers.ts";
+import { countTokens, getEncoding } from "./tokenizer.ts";
+import { getSettings } from "./settings.ts";
+import { getSystemPrompt, useCurrentJournalId } from "./journals.ts";
+import { mergeTags } from "./tags.ts";
+import { buildContext, setLastContext } from "./context.ts";
+import { getEntryAttachments } from "./attachments.ts";
+import { getDateFnsLocale, getStrings } from "./i18n.ts";
 
 export interface ChatMessage extends DBMessage {
   type: "message";
   timestamp: Date;
+  streaming?: boolean;
 }
 
 export interface ChatSummary extends DBSummary {
@@ -23,10 +43,10 @@ export interface ChatSummary extends DBSummary {
 
 export type ChatItem = ChatMessage | ChatSummary;
 
-async function getChat(): Promise<ChatItem[]> {
-  const messages = await getActiveMessages();
-  const summaries = await getActiveSummaries();
-
+function toChatItems(
+  messages: DBMessage[],
+  summaries: DBSummary[],
+): ChatItem[] {
   const messageItems: ChatMessage[] = messages.map((message) => ({
     ...message,
     type: "message",
@@ -44,18 +64,61 @@ async function getChat(): Promise<ChatItem[]> {
   );
 }
 
+export async function getChat(journalId: string): Promise<ChatItem[]> {
+  const messages = await getActiveMessages(journalId);
+  const summaries = await getActiveSummaries(journalId);
+  return toChatItems(messages, summaries);
+}
+
+export async function getSummaryChildren(
+  summaryId: string,
+): Promise<ChatItem[]> {
+  const messages = await getMessagesBySummaryId(summaryId);
+  const summaries = await getSummariesByParentId(summaryId);
+  return toChatItems(messages, summaries);
+}
+
+export function useGetSummaryChildren(
+  summaryId: string,
+  enabled: boolean,
+): ChatItem[] | undefined {
+  const { data } = useQuery({
+    queryKey: ["chat", "children", summaryId],
+    queryFn: () => getSummaryChildren(summaryId),
+    enabled,
+  });
+  return data;
+}
+
+async function getAllItems(): Promise<ChatItem[]> {
+  const messages = await getAllMessages();
+  const summaries = await getAllSummaries();
+  return toChatItems(messages, summaries);
+}
+
 export function useGetChat(): ChatItem[] {
+  const journalId = useCurrentJournalId();
   const { data } = useQuery({
-    queryKey: ["chat"],
-    queryFn: getChat,
+    queryKey: ["chat", journalId],
+    queryFn: () => getChat(journalId),
   });
   return data ?? [];
 }
 
-interface OpenAIMessage {
+export interface OpenAIMessage {
   role: "system" | "user" | "assistant" | "developer";
   name?: string;
   content: string;
+  // Data URLs, sent along with the text to models that take images.
+  images?: string[];
+}
+
+type ContentPart =
+  | { type: "text"; text: string }
+  | { type: "image_url"; image_url: { url: string } };
+
+interface RequestMessage extends Omit<OpenAIMessage, "content" | "images"> {
+  content: string | ContentPart[];
 }
 
 interface OpenAICompletion {
@@ -66,133 +129,467 @@ interface CompletionChoice {
   message: OpenAIMessage;
 }
 
-const OPENAI_BASE_URL = "https://api.proxyapi.ru/openai/v1";
-
-const CHAT_SYSTEM_PROPMT = `You are ChatGPT, a supportive and empathetic assistant helping the user to maintain a personal journal. Your role is to encourage self-reflection, provide constructive feedback, and prompt the user with questions that deepen their understanding of their thoughts and emotions. Ensure confidentiality and create a safe, non-judgmental space for expression. Guide the user towards clarity and personal growth by suggesting insights and encouraging positive, actionable steps.`;
-
-export function setOpenAiApiKey(key: string) {
-  localStorage.setItem("OPENAI_API_KEY", key);
+interface CompletionChunk {
+  choices: CompletionChunkChoice[];
 }
 
-function getOpenAiApiKey() {
-  return localStorage.getItem("OPENAI_API_KEY");
+interface CompletionChunkChoice {
+  delta: Partial<OpenAIMessage>;
 }
 
 interface ChatCompletionRequest {
   model: string;
-  messages: OpenAIMessage[];
+  messages: RequestMessage[];
   temperature: number;
 }
 
+function getAuthHeaders(provider: ProviderProfile): Record<string, string> {
+  // Local servers usually run without a key.
+  if (!provider.apiKey) return {};
+  return { Authorization: `Bearer ${provider.apiKey}` };
+}
+
+function toRequestMessage(
+  provider: ProviderProfile,
+  message: OpenAIMessage,
+): RequestMessage {
+  const { images, ...rest } = message;
+  const role =
+    message.role === "developer" && !provider.developerRole
+      ? "system"
+      : message.role;
+  if (!images || images.length === 0) return { ...rest, role };
+  return {
+    ...rest,
+    role,
+    content: [
+      { type: "text", text: message.content },
+      ...images.map((url) => ({
+        type: "image_url" as const,
+        image_url: { url },
+      })),
+    ],
+  };
+}
+
+function buildChatRequest(
+  provider: ProviderProfile,
+  messages: OpenAIMessage[],
+): ChatCompletionRequest {
+  return {
+    model: provider.model,
+    temperature: provider.temperature,
+    messages: messages.map((message) => toRequestMessage(provider, message)),
+  };
+}
+
 async function createChatCompletion(
-  request: ChatCompletionRequest,
+  provider: ProviderProfile,
+  messages: OpenAIMessage[],
+  responseFormat: "text" | "json_object" = "text",
 ): Promise<OpenAICompletion> {
   const body = {
-    ...request,
+    ...buildChatRequest(provider, messages),
     response_format: {
-      type: "text",
+      type: responseFormat,
     },
   };
   const { data } = await axios.post(
-    `${OPENAI_BASE_URL}/chat/completions`,
+    `${provider.baseUrl}/chat/completions`,
     body,
     {
-      headers: {
-        Authorization: `Bearer ${getOpenAiApiKey()}`,
-      },
+      headers: getAuthHeaders(provider),
     },
   );
   return data;
 }
 
-interface EmbeddingResponse {
-  usage: {
-    prompt_tokens: number;
-    total_tokens: number;
-  };
+// Asks for a JSON object in reply to `text`; the caller checks what it got.
+export async function createJsonCompletion(
+  role: ProviderRole,
+  systemPrompt: string,
+  text: string,
+): Promise<unknown> {
+  const result = await createChatCompletion(
+    getProvider(role),
+    [
+      { role: "system", content: systemPrompt },
+      { role: "user", content: text },
+    ],
+    "json_object",
+  );
+  const content = result.choices[0].message.content;
+  try {
+    return JSON.parse(content);
+  } catch {
+    throw new Error(`Expected a JSON object, got: ${content}`);
+  }
 }
 
-async function createTextEmbedding(input: string): Promise<EmbeddingResponse> {
+async function streamChatCompletion(
+  provider: ProviderProfile,
+  messages: OpenAIMessage[],
+  onDelta: (delta: string) => void,
+): Promise<void> {
   const body = {
-    model: "text-embedding-3-large",
-    input,
+    ...buildChatRequest(provider, messages),
+    stream: true,
+    response_format: {
+      type: "text",
+    },
   };
-  const { data } = await axios.post(`${OPENAI_BASE_URL}/embeddings`, body, {
+  const response = await fetch(`${provider.baseUrl}/chat/completions`, {
+    method: "POST",
     headers: {
-      Authorization: `Bearer ${getOpenAiApiKey()}`,
+      "Content-Type": "application/json",
+      ...getAuthHeaders(provider),
     },
+    body: JSON.stringify(body),
   });
-  return data;
-}
+  if (!response.ok || !response.body) {
+    const details = await response.text();
+    throw new Error(`Completion request failed: ${response.status} ${details}`);
+  }
 
-async function createCompletion(
-  chat: ChatItem[],
-  text: string,
-  timestamp: Date,
-): Promise<ChatItem[]> {
-  const messages: OpenAIMessage[] = [
-    { role: "system", content: CHAT_SYSTEM_PROPMT },
-  ];
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = "";
+
+  // Tells whether the line ends the stream.
+  const handleLine = (line: string): boolean => {
+    if (!line.startsWith("data:")) return false;
+    const payload = line.slice("data:".length).trim();
+    if (payload === "[DONE]") return true;
+    const chunk = JSON.parse(payload) as CompletionChunk;
+    const delta = chunk.choices[0]?.delta.content;
+    if (delta) onDelta(delta);
+    return false;
+  };
 
-  for (const item of chat) {
-    if (item.type === "message") {
-      const meta = `[${formatTimestamp(item.createdAt)}]`;
-      messages.push({
-        role: "user",
-        content: `${meta}\n\n${item.userContent}`,
-      });
-      messages.push({
-        role: "assistant",
-        content: item.assistantContent,
-      });
-    }
-    if (item.type === "summary") {
-      const meta = `[${formatTimestamp(item.dateFrom)} - ${formatTimestamp(item.dateTo)}]`;
-      messages.push({
-        role: "developer",
-        name: "summary",
-        content: `${meta}\n\n${item.content}`,
-      });
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += value;
+
+    const lines = buffer.split("\n");
+    buffer = lines.pop() ?? "";
+
+    for (const line of lines) {
+      if (handleLine(line)) return;
     }
   }
 
-  const meta = `[${formatTimestamp(timestamp)}]`;
-  messages.push({
-    role: "user",
-    content: `${meta}\n\n${text}`,
-  });
+  // Some servers leave out the newline after the last event.
+  if (handleLine(buffer.trim())) return;
+
+  throw new Error("Completion stream ended unexpectedly");
+}
+
+interface EmbeddingResponse {
+  data: EmbeddingData[];
+}
+
+interface EmbeddingData {
+  index: number;
+  embedding: number[];
+}
+
+async function createEmbeddings(
+  provider: ProviderProfile,
+  inputs: string[],
+): Promise<Float32Array[]> {
+  const body = {
+    model: provider.model,
+    input: inputs,
+  };
+  const { data } = await axios.post<EmbeddingResponse>(
+    `${provider.baseUrl}/embeddings`,
+    body,
+    {
+      headers: getAuthHeaders(provider),
+    },
+  );
+  return data.data
+    .sort((a, b) => a.index - b.index)
+    .map((item) => Float32Array.from(item.embedding));
+}
+
+// Turns axios failures into something a user can act on.
+export function describeRequestError(e: unknown): string {
+  if (!axios.isAxiosError(e)) {
+    return e instanceof Error ? e.message : String(e);
+  }
+  const strings = getStrings().providers;
+  if (!e.response) {
+    return strings.networkError(e.message);
+  }
+
+  const { status } = e.response;
+  const data = e.response.data as { error?: { message?: string } } | undefined;
+  const details = data?.error?.message ?? e.message;
+
+  if (status === 401 || status === 403) {
+    return strings.authFailed(status, details);
+  }
+  if (status === 404) {
+    return strings.notFound(details);
+  }
+  return strings.requestFailed(status, details);
+}
+
+// Sent to /audio/transcriptions as a file, whose name is how the server
+// tells the format.
+export async function transcribeAudio(
+  provider: ProviderProfile,
+  audio: Blob,
+  fileName: string,
+): Promise<string> {
+  const form = new FormData();
+  form.append("file", audio, fileName);
+  form.append("model", provider.model);
+  form.append("response_format", "json");
+  const { data } = await axios.post<{ text: string }>(
+    `${provider.baseUrl}/audio/transcriptions`,
+    form,
+    { headers: getAuthHeaders(provider) },
+  );
+  return data.text.trim();
+}
+
+// A tenth of a second of silence as 16 kHz mono WAV.
+function createSilentWav(): Blob {
+  const samples = 1600;
+  const view = new DataView(new ArrayBuffer(44 + samples * 2));
+  const writeText = (offset: number, text: string) =>
+    [...text].forEach((c, i) => view.setUint8(offset + i, c.charCodeAt(0)));
+  writeText(0, "RIFF");
+  view.setUint32(4, 36 + samples * 2, true);
+  writeText(8, "WAVEfmt ");
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true);
+  view.setUint16(22, 1, true);
+  view.setUint32(24, 16000, true);
+  view.setUint32(28, 32000, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+  writeText(36, "data");
+  view.setUint32(40, samples * 2, true);
+  return new Blob([view], { type: "audio/wav" });
+}
+
+const TEST_CONNECTION_TIMEOUT = 15000;
+
+export async function testConnection(
+  provider: ProviderProfile,
+  kind: "chat" | "embedding" | "transcription",
+): Promise<void> {
+  if (kind === "transcription") {
+    const form = new FormData();
+    form.append("file", createSilentWav(), "test.wav");
+    form.append("model", provider.model);
+    await axios.post(`${provider.baseUrl}/audio/transcriptions`, form, {
+      headers: getAuthHeaders(provider),
+      timeout: TEST_CONNECTION_TIMEOUT,
+    });
+    return;
+  }
+
+  if (kind === "embedding") {
+    await axios.post(
+      `${provider.baseUrl}/embeddings`,
+      { model: provider.model, input: "ping" },
+      {
+        headers: getAuthHeaders(provider),
+        timeout: TEST_CONNECTION_TIMEOUT,
+      },
+    );
+    return;
+  }
+
+  await axios.post(
+    `${provider.baseUrl}/chat/completions`,
+    {
+      ...buildChatRequest(provider, [{ role: "user", content: "ping" }]),
+      max_tokens: 1,
+    },
+    {
+      headers: getAuthHeaders(provider),
+      timeout: TEST_CONNECTION_TIMEOUT,
+    },
+  );
+}
+
+const EMBEDDING_BATCH_SIZE = 16;
+
+const RECALL_LIMIT = 5;
 
-  const resp = await createChatCompletion({
-    model: "gpt-4o",
-    temperature: 1,
-    messages,
+const RECALL_MIN_SIMILARITY = 0.3;
+
+function getItemText(item: ChatItem): string {
+  if (item.type === "message") {
+    return `${item.userContent}\n\n${item.assistantContent}`;
+  }
+  return item.content;
+}
+
+export function isPending(item: ChatItem): boolean {
+  return item.type === "message" && item.pending === true;
+}
+
+function isArchived(item: ChatItem): boolean {
+  if (item.type === "message") return item.summaryId !== "NULL";
+  return item.parentId !== "NULL";
+}
+
+export async function embedItems(items: ChatItem[]) {
+  const provider = getProvider("embedding");
+
+  for (let i = 0; i < items.length; i += EMBEDDING_BATCH_SIZE) {
+    const batch = items.slice(i, i + EMBEDDING_BATCH_SIZE);
+    const vectors = await createEmbeddings(provider, batch.map(getItemText));
+    await putEmbeddings(
+      batch.map((item, index) => ({
+        id: item.id,
+        model: provider.model,
+        vector: vectors[index],
+      })),
+    );
+  }
+}
+
+// Embeds every entry that has no vector for the current model yet: entries
+// written offline, imported ones, or all of them after the model changes.
+export async function indexEmbeddings() {
+  const model = getProvider("embedding").model;
+  const embeddings = await getAllEmbeddings();
+  const indexedIds = new Set(
+    embeddings.filter((e) => e.model === model).map((e) => e.id),
+  );
+  const items = await getAllItems();
+  await embedItems(
+    items.filter((item) => !indexedIds.has(item.id) && !isPending(item)),
+  );
+}
+
+function cosineSimilarity(a: Float32Array, b: Float32Array): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; ++i) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+// Active entries are already in the prompt, so only the archived ones, which
+// survive there as summaries at best, are worth recalling. Other journals are
+// never looked into.
+async function recallItems(
+  text: string,
+  journalId: string,
+): Promise<ChatItem[]> {
+  const provider = getProvider("embedding");
+  const [query] = await createEmbeddings(provider, [text]);
+
+  const items = toChatItems(
+    await getJournalMessages(journalId),
+    await getJournalSummaries(journalId),
+  ).filter(isArchived);
+  const embeddings = await getEmbeddings(items.map((item) => item.id));
+  const vectors = new Map(
+    embeddings
+      .filter((e) => e.model === provider.model)
+      .map((e) => [e.id, e.vector]),
+  );
+
+  const matches = items.flatMap((item) => {
+    const vector = vectors.get(item.id);
+    if (!vector) return [];
+    const similarity = cosineSimilarity(query, vector);
+    if (similarity < RECALL_MIN_SIMILARITY) return [];
+    return [{ item, similarity }];
   });
-  const respText = resp.choices[0].message.content;
-  const embedding = await createTextEmbedding(`${text}\n\n${respText}`);
-  const tokens = embedding.usage.total_tokens;
+
+  return matches
+    .sort((a, b) => b.similarity - a.similarity)
+    .slice(0, RECALL_LIMIT)
+    .map((match) => match.item)
+    .sort((a, b) => a.timestamp.valueOf() - b.timestamp.valueOf());
+}
+
+// Answers a pending message from the outbox, or answers a message again;
+// `chat` is what came before it.
+export async function createCompletion(
+  chat: ChatItem[],
+  pending: DBMessage,
+  onUpdate: (message: ChatMessage) => void,
+): Promise<ChatItem[]> {
+  const text = pending.userContent;
+  const timestamp = pending.createdAt;
+
+  let recalled: ChatItem[] = [];
+  try {
+    recalled = await recallItems(text, pending.journalId);
+  } catch (e) {
+    console.error("Failed to recall past entries", e);
+  }
+
+  const provider = getProvider("chat");
+  const context = buildContext(
+    provider,
+    await getSystemPrompt(pending.journalId),
+    (await getProfile(pending.journalId)).facts,
+    chat,
+    recalled,
+    pending,
+    await getEntryAttachments(pending, provider),
+  );
+  setLastContext(pending.journalId, context);
 
   const newMessage: ChatMessage = {
+    ...pending,
     type: "message",
     timestamp,
-    id: uuidv4().toString(),
-    createdAt: timestamp,
-    userContent: text,
-    assistantContent: respText,
-    tokensCount: tokens,
-    summaryId: "NULL",
+    assistantContent: "",
+    streaming: true,
   };
-  await updateData([], [newMessage]);
+  delete newMessage.pending;
+  delete newMessage.interrupted;
+  onUpdate(newMessage);
+
+  try {
+    await streamChatCompletion(provider, context.messages, (delta) => {
+      newMessage.assistantContent += delta;
+      onUpdate({ ...newMessage });
+    });
+  } catch (e) {
+    // Nothing was received, so there is nothing worth keeping.
+    if (newMessage.assistantContent === "") throw e;
+    console.error("Completion stream interrupted", e);
+    newMessage.interrupted = true;
+  }
+  delete newMessage.streaming;
 
-  console.log({ messages, embedding, newMessage });
+  newMessage.tokensCount = countMessageTokens(newMessage);
+  await updateData([], [newMessage]);
+  embedItems([newMessage]).catch((e) =>
+    console.error("Failed to embed message", e),
+  );
 
   return [...chat, newMessage];
 }
 
-async function compressChat(chat: ChatItem[]) {
+// Makes one summary if the chat has enough to fold, and tells whether it did.
+export async function compressChat(chat: ChatItem[]): Promise<boolean> {
   const messagesForSummary = selectMessagesForSummary(chat);
-  if (messagesForSummary.length === 0) return;
+  if (messagesForSummary.length === 0) return false;
   const summary = await compressMessages(messagesForSummary);
   await replaceMessages(messagesForSummary, summary);
+  embedItems([summary]).catch((e) =>
+    console.error("Failed to embed summary", e),
+  );
+  return true;
 }
 
 async function replaceMessages(items: ChatItem[], summary: ChatSummary) {
@@ -201,7 +598,9 @@ async function replaceMessages(items: ChatItem[], summary: ChatSummary) {
 
   for (const item of items) {
     if (item.type === "message") {
-      messages.push({ ...item, summaryId: summary.id });
+      // The mood or the tags may have changed while the summary was written.
+      const current = (await getMessage(item.id)) ?? item;
+      messages.push({ ...current, summaryId: summary.id });
     }
     if (item.type === "summary") {
       summaries.push({ ...item, parentId: summary.id });
@@ -211,25 +610,14 @@ async function replaceMessages(items: ChatItem[], summary: ChatSummary) {
   await updateData(summaries, messages);
 }
 
-const COMPRESS_SYSTEM_MESSAGE = `
-Твоя задача - выделить главную информацию из набора предоставленных сообщений в виде списка с указанием временных меток.
-
-**Формат ответа:**
-
-- [временная метка или диапазон] факт, событие, вывод.
-- [временная метка или диапазон] факт, событие, вывод.
-- [временная метка или диапазон] факт, событие, вывод.
-`.trim();
-
-const COMPRESS_SYSTEM_MESSAGE_2 = `
-Выпиши главную информацию из предоставленных сообщений.
-`.trim();
-
-async function compressMessages(messages: ChatItem[]): Promise<ChatSummary> {
+export async function compressMessages(
+  messages: ChatItem[],
+): Promise<ChatSummary> {
   const messagesText: string[] = [];
   let dateFrom: Date | null = null;
   let dateTo: Date | null = null;
   let level: number | null = null;
+  const tags = mergeTags(...messages.map((message) => message.tags));
 
   for (const message of messages) {
     if (message.type === "message") {
@@ -257,35 +645,64 @@ async function compressMessages(messages: ChatItem[]): Promise<ChatSummary> {
     throw new Error("Empty summary");
   }
 
-  const result = await createChatCompletion({
-    model: "gpt-4o",
-    messages: [
-      { role: "system", content: COMPRESS_SYSTEM_MESSAGE },
-      { role: "user", content: messagesText.join("\n\n") },
-      { role: "system", content: COMPRESS_SYSTEM_MESSAGE_2 },
-    ],
-    temperature: 0.0,
-  });
+  const settings = getSettings();
+  const result = await createChatCompletion(getProvider("summary"), [
+    { role: "system", content: settings.compressSystemPrompt },
+    { role: "user", content: messagesText.join("\n\n") },
+    { role: "system", content: settings.compressInstruction },
+  ]);
   const resultText = result.choices[0].message.content;
-  const embedding = await createTextEmbedding(resultText);
-  const resultTokens = embedding.usage.total_tokens;
 
-  return {
+  const summary: ChatSummary = {
     type: "summary",
     timestamp: dateTo,
     id: uuidv4().toString(),
+    journalId: messages[0].journalId,
     dateFrom,
     dateTo,
     content: resultText,
     level: level + 1,
-    tokensCount: resultTokens,
+    tokensCount: 0,
     parentId: "NULL",
+    tags,
   };
+  summary.tokensCount = countSummaryTokens(summary);
+  return summary;
+}
+
+export function countMessageTokens(
+  message: Pick<DBMessage, "userContent" | "assistantContent">,
+): number {
+  const text = `${message.userContent}\n\n${message.assistantContent}`;
+  return countTokens(text, getProvider("chat").model);
 }
 
-const MIN_SUMMARY_TOKENS = 4000;
+export function countSummaryTokens(
+  summary: Pick<DBSummary, "content">,
+): number {
+  return countTokens(summary.content, getProvider("chat").model);
+}
+
+const TOKENS_ENCODING_STORAGE_KEY = "TOKENS_ENCODING";
+
+// Counts used to come from the embeddings API, and they go stale whenever the
+// chat model switches to another encoding, so every record is counted again.
+async function recountTokens() {
+  await updateTokenCounts(countMessageTokens, countSummaryTokens);
+  localStorage.setItem(
+    TOKENS_ENCODING_STORAGE_KEY,
+    getEncoding(getProvider("chat").model),
+  );
+}
+
+export async function recountTokensIfNeeded() {
+  const encoding = getEncoding(getProvider("chat").model);
+  if (localStorage.getItem(TOKENS_ENCODING_STORAGE_KEY) === encoding) return;
+  await recountTokens();
+}
 
 function selectMessagesForSummary(chat: ChatItem[]): ChatItem[] {
+  const { minSummaryTokens } = getSettings();
   let startIndex: number | null = null;
   let endIndex: number | null = null;
   let level: number | null = null;
@@ -314,7 +731,7 @@ function selectMessagesForSummary(chat: ChatItem[]): ChatItem[] {
       startIndex = index;
     }
 
-    if (startIndex !== null && tokens >= MIN_SUMMARY_TOKENS * 2) {
+    if (startIndex !== null && tokens >= minSummaryTokens * 2) {
       const fullCount = index - startIndex + 1;
       const summaryCount = Math.ceil(fullCount / 2);
       endIndex = startIndex + summaryCount;
@@ -323,30 +740,14 @@ function selectMessagesForSummary(chat: ChatItem[]): ChatItem[] {
   }
 
   if (startIndex !== null && endIndex !== null) {
-    console.log("summary", level, startIndex, endIndex);
     return chat.slice(startIndex, endIndex);
   }
 
   return [];
 }
 
-export function usePostMessage() {
-  const client = useQueryClient();
-  const chat = useGetChat();
-
-  const execute = useCallback(
-    async (text: string) => {
-      const timestamp = new Date();
-      const newChat = await createCompletion(chat, text, timestamp);
-      await compressChat(newChat);
-      await client.invalidateQueries({ queryKey: ["chat"] });
-    },
-    [client, chat],
-  );
-
-  return { execute };
-}
-
-function formatTimestamp(dt: Date) {
-  return format(dt, "EEEE, MMMM d, yyyy 'at' H:mm");
+export function formatTimestamp(dt: Date) {
+  return format(dt, getStrings().timestampFormat, {
+    locale: getDateFnsLocale(),
+  });
 }
@@ -0,0 +1,112 @@
+import { useQuery } from "@tanstack/react-query";
+import { v4 as uuidv4 } from "uuid";
+import { Attachment, DBMessage, getAttachments } from "./db.ts";
+import { ProviderProfile, supportsVision } from "./providers.ts";
+import { getStrings } from "./i18n.ts";
+
+// Photos straight from a phone camera fit, a video would not.
+const MAX_ATTACHMENT_SIZE = 20 * 1024 * 1024;
+
+// Images are scaled down to this before they are sent, which is as much as
+// the model looks at anyway.
+const MAX_IMAGE_SIDE = 1024;
+
+// What an image of at most MAX_IMAGE_SIDE takes at high detail.
+export const IMAGE_TOKENS = 765;
+
+// What is attached to the new entry: every file by name, and the images
+// when the model takes them.
+export interface EntryAttachments {
+  names: string[];
+  // As data URLs.
+  images: string[];
+}
+
+export function isImage(attachment: Attachment): boolean {
+  return attachment.type.startsWith("image/");
+}
+
+export function isAudio(attachment: Attachment): boolean {
+  return attachment.type.startsWith("audio/");
+}
+
+export function createAttachments(
+  files: File[],
+  journalId: string,
+  messageId: string,
+): Attachment[] {
+  const strings = getStrings().chat;
+  const errors = files
+    .filter((file) => file.size > MAX_ATTACHMENT_SIZE)
+    .map((file) =>
+      strings.attachmentTooLarge(file.name, MAX_ATTACHMENT_SIZE / 1024 / 1024),
+    );
+  if (errors.length > 0) throw new Error(errors.join("\n"));
+
+  const createdAt = new Date();
+  return files.map((file) => ({
+    id: uuidv4(),
+    journalId,
+    messageId,
+    name: file.name,
+    type: file.type,
+    size: file.size,
+    createdAt,
+    data: file,
+  }));
+}
+
+function readDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+async function toImageUrl(blob: Blob): Promise<string> {
+  const bitmap = await createImageBitmap(blob);
+  const scale = Math.min(
+    1,
+    MAX_IMAGE_SIDE / Math.max(bitmap.width, bitmap.height),
+  );
+  const canvas = new OffscreenCanvas(
+    Math.round(bitmap.width * scale),
+    Math.round(bitmap.height * scale),
+  );
+  canvas.getContext("2d")?.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+  return readDataUrl(
+    await canvas.convertToBlob({ type: "image/jpeg", quality: 0.85 }),
+  );
+}
+
+// An image the browser can't decode, like HEIC outside of Safari, is only
+// named.
+export async function getEntryAttachments(
+  message: DBMessage,
+  provider: ProviderProfile,
+): Promise<EntryAttachments> {
+  const attachments = await getAttachments(message);
+  const images: string[] = [];
+  if (supportsVision(provider)) {
+    for (const attachment of attachments.filter(isImage)) {
+      try {
+        images.push(await toImageUrl(attachment.data));
+      } catch (e) {
+        console.error(`Failed to read image ${attachment.name}`, e);
+      }
+    }
+  }
+  return { names: attachments.map((a) => a.name), images };
+}
+
+export function useAttachments(message: DBMessage): Attachment[] | undefined {
+  const { data } = useQuery({
+    queryKey: ["attachments", message.id],
+    queryFn: () => getAttachments(message),
+    enabled: (message.attachmentIds ?? []).length > 0,
+  });
+  return data;
+}
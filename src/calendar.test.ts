@@ -0,0 +1,55 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { getStreaks } from "./calendar.ts";
+
+describe("getStreaks", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date(2024, 2, 15, 12));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("is zero without entries", () => {
+    expect(getStreaks([])).toEqual({ currentStreak: 0, longestStreak: 0 });
+  });
+
+  it("counts days in a row up to today", () => {
+    expect(getStreaks(["2024-03-13", "2024-03-14", "2024-03-15"])).toEqual({
+      currentStreak: 3,
+      longestStreak: 3,
+    });
+  });
+
+  it("keeps the streak alive while today's entry may still come", () => {
+    expect(getStreaks(["2024-03-13", "2024-03-14"]).currentStreak).toBe(2);
+  });
+
+  it("ends the streak after a day without entries", () => {
+    expect(getStreaks(["2024-03-12", "2024-03-13"])).toEqual({
+      currentStreak: 0,
+      longestStreak: 2,
+    });
+  });
+
+  it("finds the longest streak among gaps, whatever the order", () => {
+    expect(
+      getStreaks([
+        "2024-03-15",
+        "2024-03-01",
+        "2024-03-03",
+        "2024-03-02",
+        "2024-03-04",
+        "2024-03-10",
+      ]),
+    ).toEqual({ currentStreak: 1, longestStreak: 4 });
+  });
+
+  it("counts across the end of a month", () => {
+    vi.setSystemTime(new Date(2024, 2, 1, 12));
+    expect(
+      getStreaks(["2024-02-28", "2024-02-29", "2024-03-01"]).currentStreak,
+    ).toBe(3);
+  });
+});
@@ -0,0 +1,136 @@
+import { useQuery } from "@tanstack/react-query";
+import {
+  addDays,
+  differenceInCalendarDays,
+  eachDayOfInterval,
+  format,
+  isAfter,
+  parseISO,
+  startOfDay,
+} from "date-fns";
+import { getJournalMessages, getJournalSummaries } from "./db.ts";
+import { getArchivePath, SearchResult } from "./search.ts";
+
+export interface JournalDays {
+  // Messages written on each day, by "yyyy-MM-dd".
+  entryCounts: Map<string, number>;
+  // Days within the range of some summary, whether or not a message of the
+  // day is still kept.
+  summaryDays: Set<string>;
+  // Days in a row with entries up to today, or up to yesterday while today's
+  // entry may still come.
+  currentStreak: number;
+  longestStreak: number;
+}
+
+export function toDayKey(date: Date): string {
+  return format(date, "yyyy-MM-dd");
+}
+
+// Takes the days with entries, by "yyyy-MM-dd", in any order.
+export function getStreaks(days: string[]): {
+  currentStreak: number;
+  longestStreak: number;
+} {
+  const sorted = days.map((day) => parseISO(day)).sort((a, b) => +a - +b);
+  let longestStreak = 0;
+  let streak = 0;
+  for (let i = 0; i < sorted.length; ++i) {
+    const isNext =
+      i > 0 && differenceInCalendarDays(sorted[i], sorted[i - 1]) === 1;
+    streak = isNext ? streak + 1 : 1;
+    longestStreak = Math.max(longestStreak, streak);
+  }
+
+  const today = startOfDay(new Date());
+  const last = sorted[sorted.length - 1];
+  const isAlive = last && differenceInCalendarDays(today, last) <= 1;
+  return { currentStreak: isAlive ? streak : 0, longestStreak };
+}
+
+export async function getJournalDays(journalId: string): Promise<JournalDays> {
+  const entryCounts = new Map<string, number>();
+  for (const message of await getJournalMessages(journalId)) {
+    const day = toDayKey(message.createdAt);
+    entryCounts.set(day, (entryCounts.get(day) ?? 0) + 1);
+  }
+
+  const summaryDays = new Set<string>();
+  for (const summary of await getJournalSummaries(journalId)) {
+    const start = startOfDay(summary.dateFrom);
+    if (isAfter(start, summary.dateTo)) continue;
+    for (const day of eachDayOfInterval({ start, end: summary.dateTo })) {
+      summaryDays.add(toDayKey(day));
+    }
+  }
+
+  return { entryCounts, summaryDays, ...getStreaks([...entryCounts.keys()]) };
+}
+
+export function useJournalDays(journalId: string): JournalDays | undefined {
+  const { data } = useQuery({
+    queryKey: ["chat", "days", journalId],
+    queryFn: () => getJournalDays(journalId),
+  });
+  return data;
+}
+
+// The original messages of the day, wherever they are archived. A day whose
+// messages are gone is only told about by the summaries covering it.
+export async function getDayResults(
+  journalId: string,
+  day: string,
+): Promise<SearchResult[]> {
+  const from = parseISO(day);
+  const to = addDays(from, 1);
+  const results: SearchResult[] = [];
+
+  for (const message of await getJournalMessages(journalId)) {
+    if (message.createdAt < from || message.createdAt >= to) continue;
+    results.push({
+      id: message.id,
+      type: "message",
+      date: message.createdAt,
+      path: await getArchivePath(message.summaryId),
+      snippets: [
+        {
+          field: "user",
+          parts: [{ text: message.userContent, highlight: false }],
+        },
+      ],
+    });
+  }
+
+  if (results.length === 0) {
+    // The closest retelling is enough, the summaries above it say less.
+    const summaries = (await getJournalSummaries(journalId)).filter(
+      (s) => s.dateFrom < to && s.dateTo >= from,
+    );
+    const level = Math.min(...summaries.map((s) => s.level));
+    for (const summary of summaries) {
+      if (summary.level !== level) continue;
+      results.push({
+        id: summary.id,
+        type: "summary",
+        date: summary.dateTo,
+        path: await getArchivePath(summary.parentId),
+        snippets: [
+          {
+            field: "summary",
+            parts: [{ text: summary.content, highlight: false }],
+          },
+        ],
+      });
+    }
+  }
+
+  return results.sort((a, b) => a.date.valueOf() - b.date.valueOf());
+}
+
+export function useDayResults(journalId: string, day: string): SearchResult[] {
+  const { data } = useQuery({
+    queryKey: ["chat", "day", journalId, day],
+    queryFn: () => getDayResults(journalId, day),
+  });
+  return data ?? [];
+}
@@ -0,0 +1,187 @@
+import { QueryClient } from "@tanstack/react-query";
+import { useSyncExternalStore } from "react";
+import { compressChat, getChat, isPending } from "./ai.ts";
+
+export type CompressionStatus =
+  | { state: "idle" }
+  | { state: "running"; count: number }
+  | { state: "retrying"; error: string; retryAt: Date };
+
+// A journal with a span that may be long enough to summarize. Jobs are kept
+// in localStorage, so a closed tab picks them up on the next start, and any
+// tab can run them.
+interface CompressionJob {
+  journalId: string;
+  attempts: number;
+  // Epoch milliseconds, 0 to run right away.
+  retryAt: number;
+  // Epoch milliseconds of the last time the journal was queued, which tells
+  // a job queued again while it ran from the one the run started with.
+  queuedAt: number;
+}
+
+const QUEUE_STORAGE_KEY = "COMPRESSION_QUEUE";
+
+// Tabs take turns, so two of them never summarize the same span.
+const LOCK_NAME = "gpt-journal-compression";
+
+const RETRY_BASE_DELAY = 30 * 1000;
+
+const RETRY_MAX_DELAY = 30 * 60 * 1000;
+
+let status: CompressionStatus = { state: "idle" };
+const listeners = new Set<() => void>();
+
+function setStatus(newStatus: CompressionStatus) {
+  status = newStatus;
+  listeners.forEach((listener) => listener());
+}
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function useCompressionStatus(): CompressionStatus {
+  return useSyncExternalStore(subscribe, () => status);
+}
+
+function loadJobs(): CompressionJob[] {
+  const json = localStorage.getItem(QUEUE_STORAGE_KEY);
+  return json ? (JSON.parse(json) as CompressionJob[]) : [];
+}
+
+function saveJobs(jobs: CompressionJob[]) {
+  localStorage.setItem(QUEUE_STORAGE_KEY, JSON.stringify(jobs));
+}
+
+function updateJob(journalId: string, job: CompressionJob | null) {
+  const jobs = loadJobs().filter((j) => j.journalId !== journalId);
+  saveJobs(job ? [...jobs, job] : jobs);
+}
+
+// Leaves the job alone if it was queued again while it ran: that one still
+// has to run, and right away.
+function finishJob(job: CompressionJob, next: CompressionJob | null) {
+  const current = loadJobs().find((j) => j.journalId === job.journalId);
+  if (current && current.queuedAt !== job.queuedAt) return;
+  updateJob(job.journalId, next);
+}
+
+function withLock(callback: () => Promise<void>): Promise<void> {
+  // Web Locks are missing outside secure contexts.
+  if (!navigator.locks) return callback();
+  return navigator.locks.request(LOCK_NAME, callback);
+}
+
+let queryClient: QueryClient | null = null;
+let running: Promise<void> | null = null;
+let rerun = false;
+let retryTimeout: ReturnType<typeof setTimeout> | null = null;
+
+// Summarizes spans one after another until none is long enough. The chat is
+// read anew every time, so a span another tab has just summarized is not
+// picked again.
+async function compressJournal(journalId: string) {
+  let count = 0;
+  for (;;) {
+    const chat = (await getChat(journalId)).filter((item) => !isPending(item));
+    if (!(await compressChat(chat))) return;
+    setStatus({ state: "running", count: ++count });
+    await queryClient?.invalidateQueries({ queryKey: ["chat"] });
+  }
+}
+
+function scheduleRetry(jobs: CompressionJob[]) {
+  if (retryTimeout) clearTimeout(retryTimeout);
+  retryTimeout = null;
+  if (jobs.length === 0) return;
+  const retryAt = Math.min(...jobs.map((job) => job.retryAt));
+  retryTimeout = setTimeout(processCompression, retryAt - Date.now());
+}
+
+async function drain() {
+  for (;;) {
+    // Back online, the "online" listener starts over.
+    if (!navigator.onLine) {
+      if (status.state === "running") setStatus({ state: "idle" });
+      return;
+    }
+    const jobs = loadJobs();
+    const job = jobs.find((j) => j.retryAt <= Date.now());
+    if (!job) {
+      scheduleRetry(jobs);
+      if (jobs.length === 0) setStatus({ state: "idle" });
+      return;
+    }
+
+    setStatus({ state: "running", count: 0 });
+    try {
+      await withLock(() => compressJournal(job.journalId));
+      finishJob(job, null);
+    } catch (e) {
+      console.error("Failed to summarize journal", e);
+      const attempts = job.attempts + 1;
+      const delay = Math.min(
+        RETRY_BASE_DELAY * 2 ** (attempts - 1),
+        RETRY_MAX_DELAY,
+      );
+      const retryAt = Date.now() + delay;
+      finishJob(job, { ...job, attempts, retryAt });
+      setStatus({
+        state: "retrying",
+        error: e instanceof Error ? e.message : String(e),
+        retryAt: new Date(retryAt),
+      });
+    }
+  }
+}
+
+export function processCompression(): Promise<void> {
+  if (running) {
+    rerun = true;
+    return running;
+  }
+  running = (async () => {
+    try {
+      do {
+        rerun = false;
+        await drain();
+      } while (rerun);
+    } finally {
+      running = null;
+    }
+  })();
+  return running;
+}
+
+// Queues the journal and runs the queue. A journal that is already waiting
+// for a retry is tried again right away.
+export function scheduleCompression(journalId: string) {
+  updateJob(journalId, {
+    journalId,
+    attempts: 0,
+    retryAt: 0,
+    queuedAt: Date.now(),
+  });
+  processCompression();
+}
+
+export function retryCompression() {
+  const queuedAt = Date.now();
+  saveJobs(loadJobs().map((job) => ({ ...job, retryAt: 0, queuedAt })));
+  processCompression();
+}
+
+// Resumes the jobs left over from the last time.
+export function startCompression(client: QueryClient) {
+  if (!queryClient) {
+    window.addEventListener("online", () => {
+      processCompression();
+    });
+  }
+  queryClient = client;
+  processCompression();
+}
@@ -0,0 +1,170 @@
+import { describe, expect, it } from "vitest";
+import { buildContext } from "./context.ts";
+import { ChatMessage, ChatSummary } from "./ai.ts";
+import { createProfile, PROVIDER_PRESETS } from "./providers.ts";
+import { ProfileFact } from "./db.ts";
+
+const provider = createProfile(PROVIDER_PRESETS[0], {
+  model: "gpt-4o",
+  contextWindow: 2000,
+});
+
+// A text of about `count` tokens.
+const words = (count: number) => "note ".repeat(count).trim();
+
+function message(day: number, text: string): ChatMessage {
+  const createdAt = new Date(2024, 0, day, 12);
+  return {
+    type: "message",
+    timestamp: createdAt,
+    id: `message-${day}`,
+    journalId: "default",
+    createdAt,
+    userContent: text,
+    assistantContent: "Noted.",
+    tokensCount: 0,
+    summaryId: "NULL",
+  };
+}
+
+function summary(day: number, level: number, text: string): ChatSummary {
+  const dateTo = new Date(2024, 0, day, 12);
+  return {
+    type: "summary",
+    timestamp: dateTo,
+    id: `summary-${day}`,
+    journalId: "default",
+    dateFrom: new Date(2024, 0, day - 1, 12),
+    dateTo,
+    content: text,
+    level,
+    tokensCount: 0,
+    parentId: "NULL",
+  };
+}
+
+const pending = message(31, "Today was quiet.");
+
+const fact: ProfileFact = {
+  id: "fact",
+  text: "Has a dog named Rex.",
+  updatedAt: new Date(2024, 0, 1),
+  source: "manual",
+};
+
+const states = (context: ReturnType<typeof buildContext>) =>
+  context.parts.map((part) => [part.kind, part.state]);
+
+describe("buildContext", () => {
+  it("sends everything that fits in order, with the entry last", () => {
+    const chat = [summary(1, 1, "A calm week."), message(2, "Walked Rex.")];
+    const recalled = [message(0, "Bought a leash.")];
+    const context = buildContext(
+      provider,
+      "You are a journal.",
+      [fact],
+      chat,
+      recalled,
+      pending,
+    );
+
+    expect(states(context)).toEqual([
+      ["system", "included"],
+      ["profile", "included"],
+      ["summary", "included"],
+      ["message", "included"],
+      ["recall", "included"],
+      ["entry", "included"],
+    ]);
+    expect(context.messages.map((m) => m.role)).toEqual([
+      "system",
+      "developer",
+      "developer",
+      "user",
+      "assistant",
+      "developer",
+      "user",
+    ]);
+    expect(context.messages[context.messages.length - 1].content).toContain(
+      pending.userContent,
+    );
+    expect(context.replyTokens).toBe(500);
+    expect(context.promptTokens).toBe(
+      3 + context.parts.reduce((sum, part) => sum + part.tokens, 0),
+    );
+  });
+
+  it("leaves the profile out when it is empty", () => {
+    const context = buildContext(provider, "System", [], [], [], pending);
+    expect(context.parts.map((part) => part.kind)).toEqual(["system", "entry"]);
+  });
+
+  it("keeps the latest messages, cuts one short and drops the older ones", () => {
+    const chat = [1, 2, 3, 4, 5, 6].map((day) => message(day, words(350)));
+    const context = buildContext(provider, "System", [], chat, [], pending);
+
+    expect(states(context).slice(1, -1)).toEqual([
+      ["message", "dropped"],
+      ["message", "dropped"],
+      ["message", "truncated"],
+      ["message", "included"],
+      ["message", "included"],
+      ["message", "included"],
+    ]);
+    const truncated = context.parts[3];
+    expect(truncated.tokens).toBeLessThan(truncated.fullTokens);
+    expect(truncated.messages[0].content).toMatch(/\[…\]$/);
+    expect(context.promptTokens).toBeLessThanOrEqual(
+      context.contextWindow - context.replyTokens,
+    );
+  });
+
+  it("drops recalled entries before summaries, and lower levels first", () => {
+    const chat = [
+      summary(1, 2, words(700)),
+      summary(2, 1, words(700)),
+      message(3, words(100)),
+    ];
+    const recalled = [message(0, words(100))];
+    const context = buildContext(
+      provider,
+      "System",
+      [],
+      chat,
+      recalled,
+      pending,
+    );
+
+    expect(states(context).slice(1, -1)).toEqual([
+      ["summary", "included"],
+      ["summary", "truncated"],
+      ["message", "included"],
+      ["recall", "dropped"],
+    ]);
+  });
+
+  it("refuses an entry that doesn't fit by itself", () => {
+    const long = { ...pending, userContent: words(3000) };
+    expect(() =>
+      buildContext(provider, "System", [], [], [], long),
+    ).toThrowError(/gpt-4o/);
+  });
+
+  it("counts attached images", () => {
+    const attachments = { names: ["photo.jpg"], images: ["data:image/jpeg,"] };
+    const withImage = buildContext(
+      provider,
+      "System",
+      [],
+      [],
+      [],
+      pending,
+      attachments,
+    );
+    const without = buildContext(provider, "System", [], [], [], pending);
+    expect(withImage.promptTokens).toBeGreaterThan(without.promptTokens + 765);
+    expect(withImage.messages[withImage.messages.length - 1].content).toContain(
+      "photo.jpg",
+    );
+  });
+});
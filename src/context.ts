@@ -0,0 +1,339 @@
+import { useSyncExternalStore } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { DBMessage, getProfile, ProfileFact } from "./db.ts";
+import {
+  ChatItem,
+  formatTimestamp,
+  getChat,
+  isPending,
+  OpenAIMessage,
+} from "./ai.ts";
+import { getContextWindow, getProvider, ProviderProfile } from "./providers.ts";
+import { countTokens, truncateTokens } from "./tokenizer.ts";
+import { getSystemPrompt } from "./journals.ts";
+import { getStrings } from "./i18n.ts";
+import { formatProfile } from "./profile.ts";
+import { EntryAttachments, IMAGE_TOKENS } from "./attachments.ts";
+
+export type ContextPartKind =
+  | "system"
+  | "profile"
+  | "message"
+  | "summary"
+  | "recall"
+  | "entry";
+
+export interface ContextPart {
+  kind: ContextPartKind;
+  itemId: string | null;
+  date: Date | null;
+  state: "included" | "truncated" | "dropped";
+  // What the part takes in full, and what it takes as sent.
+  fullTokens: number;
+  tokens: number;
+  messages: OpenAIMessage[];
+}
+
+// The prompt of one request, with every candidate part, including the ones
+// left out.
+export interface PromptContext {
+  model: string;
+  contextWindow: number;
+  replyTokens: number;
+  promptTokens: number;
+  parts: ContextPart[];
+  messages: OpenAIMessage[];
+  createdAt: Date;
+}
+
+// Role, name and separators of every message, roughly as OpenAI counts them.
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+// Tokens the reply primer takes.
+const PROMPT_OVERHEAD_TOKENS = 3;
+
+const MAX_REPLY_TOKENS = 4096;
+
+// A part cut shorter than this says too little to be worth sending.
+const MIN_TRUNCATED_TOKENS = 200;
+
+const TRUNCATION_MARK = "\n\n[…]";
+
+function createPart(
+  kind: ContextPartKind,
+  item: ChatItem | null,
+  messages: OpenAIMessage[],
+  model: string,
+): ContextPart {
+  const tokens = messages.reduce(
+    (sum, message) =>
+      sum +
+      MESSAGE_OVERHEAD_TOKENS +
+      countTokens(message.content, model) +
+      (message.images?.length ?? 0) * IMAGE_TOKENS,
+    0,
+  );
+  return {
+    kind,
+    itemId: item?.id ?? null,
+    date: item?.timestamp ?? null,
+    state: "included",
+    fullTokens: tokens,
+    tokens,
+    messages,
+  };
+}
+
+function toMessages(item: ChatItem): OpenAIMessage[] {
+  if (item.type === "message") {
+    const meta = `[${formatTimestamp(item.createdAt)}]`;
+    return [
+      { role: "user", content: `${meta}\n\n${item.userContent}` },
+      { role: "assistant", content: item.assistantContent },
+    ];
+  }
+  const meta = `[${formatTimestamp(item.dateFrom)} - ${formatTimestamp(item.dateTo)}]`;
+  return [
+    {
+      role: "developer",
+      name: "summary",
+      content: `${meta}\n\n${item.content}`,
+    },
+  ];
+}
+
+function toRecallMessages(item: ChatItem): OpenAIMessage[] {
+  if (item.type === "message") {
+    const meta = `[Past entry, ${formatTimestamp(item.createdAt)}]`;
+    return [
+      {
+        role: "developer",
+        name: "recall",
+        content: `${meta}\n\n${item.userContent}`,
+      },
+    ];
+  }
+  const meta = `[Past summary, ${formatTimestamp(item.dateFrom)} - ${formatTimestamp(item.dateTo)}]`;
+  return [
+    {
+      role: "developer",
+      name: "recall",
+      content: `${meta}\n\n${item.content}`,
+    },
+  ];
+}
+
+// Cuts the part down to `budget` tokens, message by message, so an entry
+// keeps its text at the cost of the reply to it. Null when too little fits.
+function truncatePart(
+  part: ContextPart,
+  budget: number,
+  model: string,
+): ContextPart | null {
+  const messages: OpenAIMessage[] = [];
+  let tokens = 0;
+  for (const message of part.messages) {
+    const available = budget - tokens - MESSAGE_OVERHEAD_TOKENS;
+    const contentTokens = countTokens(message.content, model);
+    if (contentTokens <= available) {
+      messages.push(message);
+      tokens += MESSAGE_OVERHEAD_TOKENS + contentTokens;
+      continue;
+    }
+    if (available >= MIN_TRUNCATED_TOKENS) {
+      const markTokens = countTokens(TRUNCATION_MARK, model);
+      const content =
+        truncateTokens(message.content, available - markTokens, model) +
+        TRUNCATION_MARK;
+      messages.push({ ...message, content });
+      tokens += MESSAGE_OVERHEAD_TOKENS + countTokens(content, model);
+    }
+    break;
+  }
+  if (tokens < MIN_TRUNCATED_TOKENS) return null;
+  return { ...part, state: "truncated", tokens, messages };
+}
+
+// Fills the context window of the chat model in order of priority: the system
+// prompt, the profile and the new entry always, then the latest messages,
+// then summaries from the highest level down, then recalled entries. Room for
+// the reply is kept aside. The first part that does not fit is cut short, and
+// everything after it is dropped rather than leaving gaps.
+export function buildContext(
+  provider: ProviderProfile,
+  systemPrompt: string,
+  profile: ProfileFact[],
+  chat: ChatItem[],
+  recalled: ChatItem[],
+  pending: DBMessage,
+  attachments: EntryAttachments = { names: [], images: [] },
+): PromptContext {
+  const model = provider.model;
+  const contextWindow = getContextWindow(provider);
+  const replyTokens = Math.min(MAX_REPLY_TOKENS, Math.floor(contextWindow / 4));
+
+  const system = createPart(
+    "system",
+    null,
+    [{ role: "system", content: systemPrompt }],
+    model,
+  );
+  const profilePart =
+    profile.length > 0
+      ? createPart(
+          "profile",
+          null,
+          [
+            {
+              role: "developer",
+              name: "profile",
+              content: formatProfile(profile),
+            },
+          ],
+          model,
+        )
+      : null;
+  const attached =
+    attachments.names.length > 0
+      ? `\n\n[Attached: ${attachments.names.join(", ")}]`
+      : "";
+  const entry = createPart(
+    "entry",
+    null,
+    [
+      {
+        role: "user",
+        content: `[${formatTimestamp(pending.createdAt)}]\n\n${pending.userContent}${attached}`,
+        images: attachments.images,
+      },
+    ],
+    model,
+  );
+  const chatParts = chat.map((item) =>
+    createPart(item.type, item, toMessages(item), model),
+  );
+  const recallParts = recalled.map((item) =>
+    createPart("recall", item, toRecallMessages(item), model),
+  );
+
+  let budget =
+    contextWindow -
+    replyTokens -
+    PROMPT_OVERHEAD_TOKENS -
+    system.tokens -
+    (profilePart?.tokens ?? 0) -
+    entry.tokens;
+  if (budget < 0) {
+    throw new Error(
+      getStrings().context.tooLong(
+        model,
+        contextWindow - budget,
+        contextWindow,
+      ),
+    );
+  }
+
+  const summaryParts = chat
+    .flatMap((item, index) =>
+      item.type === "summary" ? [{ level: item.level, index }] : [],
+    )
+    .sort((a, b) => b.level - a.level || b.index - a.index)
+    .map(({ index }) => chatParts[index]);
+  const byPriority = [
+    ...chatParts.filter((part) => part.kind === "message").reverse(),
+    ...summaryParts,
+    ...[...recallParts].reverse(),
+  ];
+
+  const fitted = new Map<ContextPart, ContextPart>();
+  let isFull = false;
+  for (const part of byPriority) {
+    if (!isFull && part.tokens <= budget) {
+      fitted.set(part, part);
+      budget -= part.tokens;
+      continue;
+    }
+    const truncated = isFull ? null : truncatePart(part, budget, model);
+    isFull = true;
+    if (truncated) {
+      budget -= truncated.tokens;
+      fitted.set(part, truncated);
+    } else {
+      fitted.set(part, { ...part, state: "dropped", tokens: 0, messages: [] });
+    }
+  }
+
+  const parts = [
+    system,
+    ...(profilePart ? [profilePart] : []),
+    ...chatParts.map((part) => fitted.get(part) ?? part),
+    ...recallParts.map((part) => fitted.get(part) ?? part),
+    entry,
+  ];
+  return {
+    model,
+    contextWindow,
+    replyTokens,
+    promptTokens:
+      PROMPT_OVERHEAD_TOKENS +
+      parts.reduce((sum, part) => sum + part.tokens, 0),
+    parts,
+    messages: parts.flatMap((part) => part.messages),
+    createdAt: new Date(),
+  };
+}
+
+// The context of the last request of every journal, kept for the inspector
+// until the page reloads.
+const lastContexts = new Map<string, PromptContext>();
+const listeners = new Set<() => void>();
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function setLastContext(journalId: string, context: PromptContext) {
+  lastContexts.set(journalId, context);
+  listeners.forEach((listener) => listener());
+}
+
+export function useLastContext(journalId: string): PromptContext | undefined {
+  return useSyncExternalStore(subscribe, () => lastContexts.get(journalId));
+}
+
+// What an empty entry written now would be sent with. Recalling depends on
+// the text of the entry, so nothing is recalled.
+async function previewContext(journalId: string): Promise<PromptContext> {
+  const chat = (await getChat(journalId)).filter((item) => !isPending(item));
+  const now = new Date();
+  const pending: DBMessage = {
+    id: "",
+    journalId,
+    createdAt: now,
+    userContent: "",
+    assistantContent: "",
+    tokensCount: 0,
+    summaryId: "NULL",
+  };
+  return buildContext(
+    getProvider("chat"),
+    await getSystemPrompt(journalId),
+    (await getProfile(journalId)).facts,
+    chat,
+    [],
+    pending,
+  );
+}
+
+export function usePreviewContext(
+  journalId: string,
+): PromptContext | undefined {
+  const { data } = useQuery({
+    queryKey: ["chat", "context", journalId],
+    queryFn: () => previewContext(journalId),
+  });
+  return data;
+}
@@ -0,0 +1,170 @@
+import { getStrings } from "./i18n.ts";
+
+// WebCrypto has no Argon2, so the key is stretched with PBKDF2 instead, at
+// the iteration count OWASP recommends for PBKDF2-HMAC-SHA256.
+const PBKDF2_ITERATIONS = 600_000;
+
+const ENCRYPTED_PREFIX = "enc:v1:";
+
+// Encrypted on setup and decrypted on unlock to tell a wrong passphrase from
+// a right one without touching the journal itself.
+const VERIFIER_TEXT = "gpt-journal";
+
+export interface EncryptionConfig {
+  salt: string;
+  iterations: number;
+  verifier: string;
+}
+
+export interface JournalKey {
+  cipher: CryptoKey;
+  hmac: CryptoKey;
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+export function toBase64(bytes: Uint8Array): string {
+  let binary = "";
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary);
+}
+
+export function fromBase64(base64: string): Uint8Array {
+  return Uint8Array.from(atob(base64), (char) => char.charCodeAt(0));
+}
+
+export async function deriveKey(
+  passphrase: string,
+  salt: string,
+  iterations: number,
+): Promise<JournalKey> {
+  const material = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(passphrase),
+    "PBKDF2",
+    false,
+    ["deriveBits"],
+  );
+  const bits = new Uint8Array(
+    await crypto.subtle.deriveBits(
+      { name: "PBKDF2", hash: "SHA-256", salt: fromBase64(salt), iterations },
+      material,
+      512,
+    ),
+  );
+
+  // One half encrypts the data, the other one hashes search terms.
+  const cipher = await crypto.subtle.importKey(
+    "raw",
+    bits.slice(0, 32),
+    "AES-GCM",
+    false,
+    ["encrypt", "decrypt"],
+  );
+  const hmac = await crypto.subtle.importKey(
+    "raw",
+    bits.slice(32),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"],
+  );
+  return { cipher, hmac };
+}
+
+export function isEncrypted(value: unknown): value is string {
+  return typeof value === "string" && value.startsWith(ENCRYPTED_PREFIX);
+}
+
+export async function encryptBytes(
+  key: JournalKey,
+  data: Uint8Array,
+): Promise<string> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const encrypted = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv },
+    key.cipher,
+    data,
+  );
+  return `${ENCRYPTED_PREFIX}${toBase64(iv)}:${toBase64(new Uint8Array(encrypted))}`;
+}
+
+export async function decryptBytes(
+  key: JournalKey,
+  value: string,
+): Promise<ArrayBuffer> {
+  const [iv, data] = value.slice(ENCRYPTED_PREFIX.length).split(":");
+  return crypto.subtle.decrypt(
+    { name: "AES-GCM", iv: fromBase64(iv) },
+    key.cipher,
+    fromBase64(data),
+  );
+}
+
+export function encryptString(key: JournalKey, text: string): Promise<string> {
+  return encryptBytes(key, encoder.encode(text));
+}
+
+// Plain values pass through, so data written before encryption was enabled
+// stays readable.
+export async function decryptString(
+  key: JournalKey,
+  value: string,
+): Promise<string> {
+  if (!isEncrypted(value)) return value;
+  return decoder.decode(await decryptBytes(key, value));
+}
+
+export async function hashTerm(key: JournalKey, term: string): Promise<string> {
+  const signature = await crypto.subtle.sign(
+    "HMAC",
+    key.hmac,
+    encoder.encode(term),
+  );
+  return toBase64(new Uint8Array(signature, 0, 16));
+}
+
+export async function createEncryptionConfig(
+  passphrase: string,
+): Promise<{ config: EncryptionConfig; key: JournalKey }> {
+  const salt = toBase64(crypto.getRandomValues(new Uint8Array(16)));
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+  const verifier = await encryptString(key, VERIFIER_TEXT);
+  return { config: { salt, iterations: PBKDF2_ITERATIONS, verifier }, key };
+}
+
+export async function openEncryptionConfig(
+  config: EncryptionConfig,
+  passphrase: string,
+): Promise<JournalKey> {
+  const key = await deriveKey(passphrase, config.salt, config.iterations);
+  try {
+    if ((await decryptString(key, config.verifier)) === VERIFIER_TEXT) {
+      return key;
+    }
+  } catch {
+    // AES-GCM rejects a wrong key with an OperationError.
+  }
+  throw new Error(getStrings().encryption.wrongPassphrase);
+}
+
+// The key of the unlocked journal, kept only in memory. While the journal is
+// locked, asking for the key fails, so nothing can slip into the database
+// unencrypted in the meantime.
+let journalKey: JournalKey | null = null;
+let isLocked = false;
+
+export function getJournalKey(): JournalKey | null {
+  if (isLocked) throw new Error("Journal is locked");
+  return journalKey;
+}
+
+export function setJournalKey(key: JournalKey | null) {
+  journalKey = key;
+  isLocked = false;
+}
+
+export function lockJournal() {
+  journalKey = null;
+  isLocked = true;
+}
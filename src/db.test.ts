@@ -0,0 +1,117 @@
+import { describe, expect, it } from "vitest";
+import { openDB } from "idb";
+import {
+  DBMessage,
+  DEFAULT_JOURNAL_ID,
+  getActiveMessages,
+  getJournal,
+  getJournalMessages,
+  getJournalSummaries,
+  getTaggedEntries,
+  updateData,
+  updateTokenCounts,
+} from "./db.ts";
+
+// The database as version 5 left it, before there were journals.
+async function createVersion5() {
+  const db = await openDB("gpt_journal", 5, {
+    upgrade(db) {
+      const summaryStore = db.createObjectStore("summary", { keyPath: "id" });
+      summaryStore.createIndex("parentId", "parentId", { unique: false });
+      const messageStore = db.createObjectStore("message", { keyPath: "id" });
+      messageStore.createIndex("summaryId", "summaryId", { unique: false });
+      db.createObjectStore("embedding", { keyPath: "id" });
+      const searchStore = db.createObjectStore("search", { keyPath: "id" });
+      searchStore.createIndex("terms", "terms", {
+        unique: false,
+        multiEntry: true,
+      });
+      db.createObjectStore("meta");
+      db.createObjectStore("backup", { keyPath: "id" });
+    },
+  });
+  await db.put("message", {
+    id: "m1",
+    createdAt: new Date(2024, 0, 1),
+    userContent: "Old entry",
+    assistantContent: "Old reply",
+    tokensCount: 4,
+    summaryId: "NULL",
+  });
+  await db.put("summary", {
+    id: "s1",
+    dateFrom: new Date(2023, 11, 1),
+    dateTo: new Date(2023, 11, 31),
+    content: "Old summary",
+    level: 1,
+    tokensCount: 2,
+    parentId: "NULL",
+  });
+  db.close();
+}
+
+function message(id: string, journalId: string, text: string): DBMessage {
+  return {
+    id,
+    journalId,
+    createdAt: new Date(2024, 0, 2),
+    userContent: text,
+    assistantContent: "",
+    tokensCount: 0,
+    summaryId: "NULL",
+  };
+}
+
+describe("migrations", () => {
+  it("move the entries of an old database to the default journal", async () => {
+    await createVersion5();
+
+    const messages = await getActiveMessages(DEFAULT_JOURNAL_ID);
+    expect(messages.map((m) => [m.id, m.userContent])).toEqual([
+      ["m1", "Old entry"],
+    ]);
+    const summaries = await getJournalSummaries(DEFAULT_JOURNAL_ID);
+    expect(summaries.map((s) => s.id)).toEqual(["s1"]);
+    expect(await getJournal(DEFAULT_JOURNAL_ID)).toMatchObject({
+      name: "Journal",
+      systemPrompt: null,
+    });
+  });
+
+  it("create every store of a new database", async () => {
+    await updateData([], [message("m1", "j", "New entry")]);
+    expect(await getJournalMessages("j")).toHaveLength(1);
+    expect(await getJournalMessages("other")).toEqual([]);
+  });
+});
+
+describe("updateTokenCounts", () => {
+  it("counts every entry and keeps the rest of it", async () => {
+    const entry = message("m1", "j", "Four words right here");
+    await updateData([], [entry]);
+
+    await updateTokenCounts(
+      (m) => m.userContent.split(" ").length,
+      () => 0,
+    );
+
+    const [counted] = await getJournalMessages("j");
+    expect(counted).toMatchObject({ ...entry, tokensCount: 4 });
+  });
+});
+
+describe("getTaggedEntries", () => {
+  it("finds the entries of the journal only", async () => {
+    await updateData(
+      [],
+      [
+        { ...message("m1", "a", "In journal a"), tags: ["trip"] },
+        { ...message("m2", "b", "In journal b"), tags: ["trip"] },
+        { ...message("m3", "a", "Untagged"), tags: [] },
+      ],
+    );
+
+    const { messages } = await getTaggedEntries("a", "trip");
+    expect(messages.map((m) => m.id)).toEqual(["m1"]);
+  });
+});
@@ -1,29 +1,248 @@
-import { openDB } from "idb";
+import {
+  DBSchema,
+  IDBPDatabase,
+  IDBPTransaction,
+  openDB,
+  StoreNames,
+} from "idb";
+import { v4 as uuidv4, v5 as uuidv5 } from "uuid";
+import { extractTerms } from "./stemmer.ts";
+import {
+  decryptBytes,
+  decryptString,
+  encryptBytes,
+  EncryptionConfig,
+  encryptString,
+  fromBase64,
+  getJournalKey,
+  hashTerm,
+  JournalKey,
+  toBase64,
+} from "./crypto.ts";
 
-export function initDB() {
-  const request = indexedDB.open("gpt_journal", 1);
+export const DEFAULT_JOURNAL_ID = "default";
 
-  request.onupgradeneeded = (event: IDBVersionChangeEvent) => {
-    const db = (event.target as IDBOpenDBRequest).result;
+// Every schema change is a new migration appended to the end of this list;
+// the database version is the number of migrations, and an upgrade runs the
+// ones the user doesn't have yet in order. Never edit or reorder the existing
+// ones, some users are still on each of those versions.
+const MIGRATIONS: Migration[] = [
+  // 1: the original journal
+  (db) => {
+    const summaryStore = db.createObjectStore("summary", { keyPath: "id" });
+    summaryStore.createIndex("parentId", "parentId", { unique: false });
+    const messageStore = db.createObjectStore("message", { keyPath: "id" });
+    messageStore.createIndex("summaryId", "summaryId", { unique: false });
+  },
+  // 2: embeddings for recall
+  (db) => {
+    db.createObjectStore("embedding", { keyPath: "id" });
+  },
+  // 3: full-text search index
+  (db) => {
+    const searchStore = db.createObjectStore("search", { keyPath: "id" });
+    searchStore.createIndex("terms", "terms", {
+      unique: false,
+      multiEntry: true,
+    });
+  },
+  // 4: encryption config
+  (db) => {
+    db.createObjectStore("meta");
+  },
+  // 5: backups taken before imports
+  (db) => {
+    db.createObjectStore("backup", { keyPath: "id" });
+  },
+  // 6: separate journals; everything written so far goes to the default one
+  async (db, transaction) => {
+    const journalStore = db.createObjectStore("journal", { keyPath: "id" });
+    await journalStore.put({
+      id: DEFAULT_JOURNAL_ID,
+      name: "Journal",
+      systemPrompt: null,
+    });
 
-    if (!db.objectStoreNames.contains("summary")) {
-      const summaryStore = db.createObjectStore("summary", { keyPath: "id" });
-      summaryStore.createIndex("parentId", "parentId", { unique: false });
+    const messageStore = transaction.objectStore("message");
+    messageStore.createIndex("journalSummaryId", ["journalId", "summaryId"]);
+    let messageCursor = await messageStore.openCursor();
+    while (messageCursor) {
+      await messageCursor.update({
+        ...messageCursor.value,
+        journalId: DEFAULT_JOURNAL_ID,
+      });
+      messageCursor = await messageCursor.continue();
     }
 
-    if (!db.objectStoreNames.contains("message")) {
-      const messageStore = db.createObjectStore("message", { keyPath: "id" });
-      messageStore.createIndex("summaryId", "summaryId", { unique: false });
+    const summaryStore = transaction.objectStore("summary");
+    summaryStore.createIndex("journalParentId", ["journalId", "parentId"]);
+    let summaryCursor = await summaryStore.openCursor();
+    while (summaryCursor) {
+      await summaryCursor.update({
+        ...summaryCursor.value,
+        journalId: DEFAULT_JOURNAL_ID,
+      });
+      summaryCursor = await summaryCursor.continue();
     }
-  };
 
-  request.onsuccess = () => {
-    console.log("IndexedDB successfully initialized");
-  };
+    const backupStore = transaction.objectStore("backup");
+    let backupCursor = await backupStore.openCursor();
+    while (backupCursor) {
+      await backupCursor.update({
+        ...backupCursor.value,
+        journalId: DEFAULT_JOURNAL_ID,
+      });
+      backupCursor = await backupCursor.continue();
+    }
+  },
+  // 7: tags; entries written before have none, so nothing to index yet
+  (_db, transaction) => {
+    for (const store of ["message", "summary"] as const) {
+      transaction.objectStore(store).createIndex("tagKeys", "tagKeys", {
+        unique: false,
+        multiEntry: true,
+      });
+    }
+  },
+  // 8: reflection reports over calendar periods
+  (db) => {
+    const reportStore = db.createObjectStore("report", { keyPath: "id" });
+    reportStore.createIndex("journalId", "journalId", { unique: false });
+  },
+  // 9: the profile, one record per journal
+  (db) => {
+    db.createObjectStore("profile", { keyPath: "journalId" });
+  },
+  // 10: photos and files attached to messages
+  (db) => {
+    const attachmentStore = db.createObjectStore("attachment", {
+      keyPath: "id",
+    });
+    attachmentStore.createIndex("messageId", "messageId", { unique: false });
+    attachmentStore.createIndex("journalId", "journalId", { unique: false });
+  },
+];
 
-  request.onerror = (event) => {
-    console.error("Error initializing IndexedDB:", (event.target as any).error);
+const DB_NAME = "gpt_journal";
+
+const DB_VERSION = MIGRATIONS.length;
+
+interface JournalSchema extends DBSchema {
+  message: {
+    key: string;
+    value: StoredMessage;
+    indexes: {
+      summaryId: string;
+      journalSummaryId: [string, string];
+      tagKeys: string;
+    };
+  };
+  summary: {
+    key: string;
+    value: StoredSummary;
+    indexes: {
+      parentId: string;
+      journalParentId: [string, string];
+      tagKeys: string;
+    };
+  };
+  embedding: {
+    key: string;
+    value: StoredEmbedding;
+  };
+  search: {
+    key: string;
+    value: DBSearchEntry;
+    indexes: { terms: string };
+  };
+  meta: {
+    key: string;
+    value: EncryptionConfig;
+  };
+  backup: {
+    key: string;
+    value: StoredBackup;
+  };
+  journal: {
+    key: string;
+    value: Journal;
+  };
+  report: {
+    key: string;
+    value: StoredReport;
+    indexes: { journalId: string };
+  };
+  profile: {
+    key: string;
+    value: StoredProfile;
   };
+  attachment: {
+    key: string;
+    value: StoredAttachment;
+    indexes: { messageId: string; journalId: string };
+  };
+}
+
+type JournalDB = IDBPDatabase<JournalSchema>;
+
+// Migrations may also rewrite data through the upgrade transaction; it stays
+// open for as long as they only await its own requests.
+type Migration = (
+  db: JournalDB,
+  transaction: IDBPTransaction<
+    JournalSchema,
+    StoreNames<JournalSchema>[],
+    "versionchange"
+  >,
+) => void | Promise<void>;
+
+let connection: Promise<JournalDB> | null = null;
+
+function openConnection(): Promise<JournalDB> {
+  return openDB<JournalSchema>(DB_NAME, DB_VERSION, {
+    async upgrade(db, oldVersion, _newVersion, transaction) {
+      for (const migration of MIGRATIONS.slice(oldVersion)) {
+        await migration(db, transaction);
+      }
+    },
+    blocked() {
+      console.warn("Database upgrade is waiting for other tabs to close");
+    },
+    // Another tab wants a newer schema; let it go ahead and reopen with
+    // the new version on the next request.
+    blocking() {
+      closeConnection();
+    },
+    terminated() {
+      connection = null;
+    },
+  });
+}
+
+function closeConnection() {
+  const closing = connection;
+  connection = null;
+  closing?.then((db) => db.close()).catch(() => {});
+}
+
+// One connection shared by the whole app, opened on first use.
+function getDB(): Promise<JournalDB> {
+  if (!connection) {
+    connection = openConnection();
+    connection.catch(() => {
+      connection = null;
+    });
+  }
+  return connection;
+}
+
+export async function initDB() {
+  try {
+    await getDB();
+    console.log("IndexedDB successfully initialized");
+  } catch (e) {
+    console.error("Error initializing IndexedDB:", e);
+  }
 }
 
 interface ImportedMessage {
@@ -33,6 +252,19 @@ interface ImportedMessage {
   assistant_content: string;
   tokens_count: number;
   summary_id: string | null;
+  interrupted: boolean;
+  pending: boolean;
+  mood: ImportedMood | null;
+  tags: string[];
+  attachment_ids: string[];
+}
+
+interface ImportedMood {
+  score: number;
+  emotions: string[];
+  energy: number | null;
+  sleep_hours: number | null;
+  source: Mood["source"];
 }
 
 interface ImportedSummary {
@@ -43,72 +275,720 @@ interface ImportedSummary {
   level: number;
   tokens_count: number;
   parent_id: string | null;
+  stale: boolean;
+  tags: string[];
+}
+
+interface ImportedAttachment {
+  id: string;
+  message_id: string;
+  name: string;
+  type: string;
+  created_at: string;
+  // Base64 of the file.
+  data: string;
+}
+
+interface ImportedProfileFact {
+  id: string;
+  text: string;
+  updated_at: string;
+  source: ProfileFact["source"];
 }
 
+// Bumped whenever the file format changes; importing.ts upgrades files of
+// every older version to this one.
+export const EXPORT_VERSION = "8";
+
 export interface ImportedData {
   version: string;
   data: {
     message: ImportedMessage[];
     summary: ImportedSummary[];
+    // Null in files from before the profile, which leave it as it is.
+    profile: ImportedProfileFact[] | null;
+    attachment: ImportedAttachment[];
   };
 }
 
+// A separate notebook with its own conversation, summaries and prompt.
+export interface Journal {
+  id: string;
+  name: string;
+  // Falls back to the chat system prompt from the settings when null.
+  systemPrompt: string | null;
+}
+
 export interface DBMessage {
   id: string;
+  journalId: string;
   createdAt: Date;
   userContent: string;
   assistantContent: string;
   tokensCount: number;
   summaryId: string | "NULL";
+  interrupted?: boolean;
+  // Written offline or not answered yet; waits in the outbox for a reply.
+  pending?: boolean;
+  mood?: Mood;
+  // People, places and themes, in lower case.
+  tags?: string[];
+  // Photos and files, in the order they were attached.
+  attachmentIds?: string[];
+}
+
+// How the user felt when writing an entry. Scores go from 1 to 10; whatever
+// the entry doesn't mention is null.
+export interface Mood {
+  score: number;
+  emotions: string[];
+  energy: number | null;
+  sleepHours: number | null;
+  // "manual" when the score was picked by the user rather than read from the
+  // entry.
+  source: "auto" | "manual";
+}
+
+// With encryption on, the mood and the tags are stored as encrypted JSON.
+// The tags are indexed through tagKeys, which are keyed hashes then, the way
+// search terms are.
+interface StoredMessage extends Omit<DBMessage, "mood" | "tags"> {
+  mood?: Mood | string;
+  tags?: string[] | string;
+  tagKeys?: string[];
+}
+
+interface StoredSummary extends Omit<DBSummary, "tags"> {
+  tags?: string[] | string;
+  tagKeys?: string[];
 }
 
 export interface DBSummary {
   id: string;
+  journalId: string;
   dateFrom: Date;
   dateTo: Date;
   content: string;
   level: number;
   tokensCount: number;
   parentId: string | "NULL";
+  // Something it was made from has changed; it's written anew in the
+  // background.
+  stale?: boolean;
+  // All the tags of the entries it was made from.
+  tags?: string[];
+}
+
+// Embeddings are not exported: they depend on the configured model and are
+// recomputed for any entry that lacks one.
+export interface DBEmbedding {
+  id: string;
+  model: string;
+  vector: Float32Array;
+}
+
+// One record per message or summary; the multiEntry index over its stemmed
+// terms is what makes the inverted index. With encryption on, the terms are
+// keyed hashes, so the index doesn't give the text away.
+export interface DBSearchEntry {
+  id: string;
+  type: "message" | "summary";
+  terms: string[];
+}
+
+export type ImportMode = "replace" | "merge";
+
+export type ReportPeriod = "week" | "month";
+
+export interface ReportContent {
+  themes: string[];
+  wins: string[];
+  struggles: string[];
+  patterns: string[];
+  focus: string[];
+  // What changed since the previous period, when there was a report for it.
+  changes: string[];
+}
+
+// A reflection over the messages of one week or month. Reports are not
+// exported: they are made from the entries and can be made again.
+export interface Report {
+  id: string;
+  journalId: string;
+  period: ReportPeriod;
+  periodStart: Date;
+  createdAt: Date;
+  messageCount: number;
+  content: ReportContent;
+}
+
+// With encryption on, the content is stored as encrypted JSON.
+interface StoredReport extends Omit<Report, "content"> {
+  content: ReportContent | string;
+}
+
+export interface Attachment {
+  id: string;
+  journalId: string;
+  messageId: string;
+  name: string;
+  // The MIME type, empty when the browser doesn't know it.
+  type: string;
+  size: number;
+  createdAt: Date;
+  data: Blob;
+}
+
+// With encryption on, the name, the type and the file itself are encrypted.
+interface StoredAttachment extends Omit<Attachment, "data"> {
+  data: Blob | string;
+}
+
+// Lasting facts about the user, like the people in their life, their goals
+// and their health, that would otherwise fade away as the entries are
+// summarized. The model keeps them up to date from every new entry.
+export interface Profile {
+  journalId: string;
+  facts: ProfileFact[];
+}
+
+export interface ProfileFact {
+  id: string;
+  text: string;
+  updatedAt: Date;
+  // "manual" when written or edited by the user, which the model leaves as
+  // it is.
+  source: "auto" | "manual";
+}
+
+// With encryption on, the facts are stored as encrypted JSON.
+interface StoredProfile extends Omit<Profile, "facts"> {
+  facts: ProfileFact[] | string;
+}
+
+// A copy of the journal taken before a destructive import, in the export
+// format, so restoring it is just another import.
+export interface JournalBackup {
+  id: string;
+  journalId: string;
+  createdAt: Date;
+  data: ImportedData;
+}
+
+interface StoredBackup {
+  id: string;
+  journalId: string;
+  createdAt: Date;
+  payload: string;
+}
+
+// Older backups are dropped, a full copy of the journal is not small.
+const BACKUP_LIMIT = 3;
+
+interface StoredEmbedding {
+  id: string;
+  model: string;
+  vector: Float32Array | string;
+}
+
+async function hashTerms(
+  terms: string[],
+  key: JournalKey | null,
+): Promise<string[]> {
+  if (!key) return terms;
+  return Promise.all(terms.map((term) => hashTerm(key, term)));
+}
+
+async function getMessageSearchEntry(
+  message: DBMessage,
+  key: JournalKey | null,
+): Promise<DBSearchEntry> {
+  const text = `${message.userContent}\n${message.assistantContent}`;
+  return {
+    id: message.id,
+    type: "message",
+    terms: await hashTerms(extractTerms(text), key),
+  };
+}
+
+async function getSummarySearchEntry(
+  summary: DBSummary,
+  key: JournalKey | null,
+): Promise<DBSearchEntry> {
+  return {
+    id: summary.id,
+    type: "summary",
+    terms: await hashTerms(extractTerms(summary.content), key),
+  };
+}
+
+async function encodeTags(
+  tags: string[] | undefined,
+  key: JournalKey | null,
+): Promise<{ tags?: string[] | string; tagKeys: string[] }> {
+  return {
+    tags: key && tags ? await encryptString(key, JSON.stringify(tags)) : tags,
+    tagKeys: await hashTerms(tags ?? [], key),
+  };
+}
+
+async function decodeTags(
+  tags: string[] | string | undefined,
+  key: JournalKey | null,
+): Promise<string[] | undefined> {
+  if (typeof tags !== "string") return tags;
+  if (!key) throw new Error("Journal is locked");
+  return JSON.parse(await decryptString(key, tags));
+}
+
+async function encodeMessage(
+  message: DBMessage,
+  key: JournalKey | null,
+): Promise<StoredMessage> {
+  const tags = await encodeTags(message.tags, key);
+  if (!key) return { ...message, ...tags };
+  return {
+    ...message,
+    ...tags,
+    userContent: await encryptString(key, message.userContent),
+    assistantContent: await encryptString(key, message.assistantContent),
+    mood:
+      message.mood && (await encryptString(key, JSON.stringify(message.mood))),
+  };
+}
+
+async function decodeMessage(message: StoredMessage): Promise<DBMessage> {
+  const { mood } = message;
+  const key = getJournalKey();
+  const tags = await decodeTags(message.tags, key);
+  if (!key) {
+    if (typeof mood === "string") throw new Error("Journal is locked");
+    return { ...message, mood, tags };
+  }
+  return {
+    ...message,
+    userContent: await decryptString(key, message.userContent),
+    assistantContent: await decryptString(key, message.assistantContent),
+    mood:
+      typeof mood === "string"
+        ? JSON.parse(await decryptString(key, mood))
+        : mood,
+    tags,
+  };
+}
+
+async function encodeSummary(
+  summary: DBSummary,
+  key: JournalKey | null,
+): Promise<StoredSummary> {
+  const tags = await encodeTags(summary.tags, key);
+  if (!key) return { ...summary, ...tags };
+  return {
+    ...summary,
+    ...tags,
+    content: await encryptString(key, summary.content),
+  };
+}
+
+async function decodeSummary(summary: StoredSummary): Promise<DBSummary> {
+  const key = getJournalKey();
+  const tags = await decodeTags(summary.tags, key);
+  if (!key) return { ...summary, tags };
+  return {
+    ...summary,
+    content: await decryptString(key, summary.content),
+    tags,
+  };
+}
+
+async function encodeReport(
+  report: Report,
+  key: JournalKey | null,
+): Promise<StoredReport> {
+  if (!key) return report;
+  return {
+    ...report,
+    content: await encryptString(key, JSON.stringify(report.content)),
+  };
+}
+
+async function decodeReport(report: StoredReport): Promise<Report> {
+  const { content } = report;
+  if (typeof content !== "string") return { ...report, content };
+  const key = getJournalKey();
+  if (!key) throw new Error("Journal is locked");
+  return { ...report, content: JSON.parse(await decryptString(key, content)) };
+}
+
+async function encodeProfile(
+  profile: Profile,
+  key: JournalKey | null,
+): Promise<StoredProfile> {
+  if (!key) return profile;
+  return {
+    ...profile,
+    facts: await encryptString(key, JSON.stringify(profile.facts)),
+  };
+}
+
+async function decodeProfile(profile: StoredProfile): Promise<Profile> {
+  const { facts } = profile;
+  if (typeof facts !== "string") return { ...profile, facts };
+  const key = getJournalKey();
+  if (!key) throw new Error("Journal is locked");
+  const parsed: ProfileFact[] = JSON.parse(await decryptString(key, facts));
+  return {
+    ...profile,
+    facts: parsed.map((fact) => ({
+      ...fact,
+      updatedAt: new Date(fact.updatedAt),
+    })),
+  };
+}
+
+async function encodeAttachment(
+  attachment: Attachment,
+  key: JournalKey | null,
+): Promise<StoredAttachment> {
+  if (!key) return attachment;
+  const bytes = new Uint8Array(await attachment.data.arrayBuffer());
+  return {
+    ...attachment,
+    name: await encryptString(key, attachment.name),
+    type: await encryptString(key, attachment.type),
+    data: await encryptBytes(key, bytes),
+  };
+}
+
+async function decodeAttachment(
+  attachment: StoredAttachment,
+): Promise<Attachment> {
+  const { data } = attachment;
+  if (typeof data !== "string") return { ...attachment, data };
+  const key = getJournalKey();
+  if (!key) throw new Error("Journal is locked");
+  const type = await decryptString(key, attachment.type);
+  return {
+    ...attachment,
+    name: await decryptString(key, attachment.name),
+    type,
+    data: new Blob([await decryptBytes(key, data)], { type }),
+  };
+}
+
+async function encodeEmbedding(
+  embedding: DBEmbedding,
+  key: JournalKey | null,
+): Promise<StoredEmbedding> {
+  if (!key) return embedding;
+  const { buffer, byteOffset, byteLength } = embedding.vector;
+  const bytes = new Uint8Array(buffer, byteOffset, byteLength);
+  return { ...embedding, vector: await encryptBytes(key, bytes) };
+}
+
+async function decodeEmbedding(
+  embedding: StoredEmbedding,
+): Promise<DBEmbedding> {
+  const { vector } = embedding;
+  if (typeof vector !== "string") return { ...embedding, vector };
+  const key = getJournalKey();
+  if (!key) throw new Error("Journal is locked");
+  return {
+    ...embedding,
+    vector: new Float32Array(await decryptBytes(key, vector)),
+  };
+}
+
+function isSameTags(a: string[] = [], b: string[] = []): boolean {
+  return a.length === b.length && a.every((tag, i) => tag === b[i]);
+}
+
+export function isSameMessage(a: DBMessage, b: DBMessage): boolean {
+  return (
+    a.createdAt.getTime() === b.createdAt.getTime() &&
+    a.userContent === b.userContent &&
+    a.assistantContent === b.assistantContent &&
+    a.summaryId === b.summaryId &&
+    JSON.stringify(a.mood ?? null) === JSON.stringify(b.mood ?? null) &&
+    isSameTags(a.tags, b.tags) &&
+    isSameTags(a.attachmentIds, b.attachmentIds)
+  );
+}
+
+export function isSameSummary(a: DBSummary, b: DBSummary): boolean {
+  return (
+    a.dateFrom.getTime() === b.dateFrom.getTime() &&
+    a.dateTo.getTime() === b.dateTo.getTime() &&
+    a.content === b.content &&
+    a.level === b.level &&
+    a.parentId === b.parentId &&
+    isSameTags(a.tags, b.tags)
+  );
+}
+
+// Covers every [journalId, x] key of the compound indexes.
+function journalKeyRange(journalId: string): IDBKeyRange {
+  return IDBKeyRange.bound([journalId], [journalId, []]);
+}
+
+async function getJournalEntryIds(journalId: string): Promise<string[]> {
+  const db = await getDB();
+  const range = journalKeyRange(journalId);
+  const summaryIds = await db.getAllKeysFromIndex(
+    "summary",
+    "journalParentId",
+    range,
+  );
+  const messageIds = await db.getAllKeysFromIndex(
+    "message",
+    "journalSummaryId",
+    range,
+  );
+  return [...summaryIds, ...messageIds];
+}
+
+// Ids are unique across journals, so an imported entry with the id of
+// another journal's entry would take it over. Such entries come in as
+// copies, under ids derived from the journal, which are the same on every
+// import of the file.
+const COPY_NAMESPACE = "0f6c2d1e-8b4a-4e57-9c3d-5a7e2b9f1c64";
+
+export function copyId(id: string, journalId: string): string {
+  return uuidv5(id, uuidv5(journalId, COPY_NAMESPACE));
+}
+
+// The ids another journal already has a record with.
+export async function findForeignIds(
+  store: "message" | "summary" | "attachment",
+  ids: string[],
+  journalId: string,
+): Promise<string[]> {
+  const db = await getDB();
+  const transaction = db.transaction(store);
+  const foreignIds: string[] = [];
+  for (const id of ids) {
+    const owner = await transaction.store.get(id);
+    if (owner && owner.journalId !== journalId) foreignIds.push(id);
+  }
+  await transaction.done;
+  return foreignIds;
+}
+
+async function getForeignIds(
+  importedData: ImportedData,
+  journalId: string,
+): Promise<Set<string>> {
+  const { message, summary, attachment } = importedData.data;
+  return new Set([
+    ...(await findForeignIds(
+      "message",
+      message.map((m) => m.id),
+      journalId,
+    )),
+    ...(await findForeignIds(
+      "summary",
+      summary.map((s) => s.id),
+      journalId,
+    )),
+    ...(await findForeignIds(
+      "attachment",
+      attachment.map((a) => a.id),
+      journalId,
+    )),
+  ]);
+}
+
+// Gives the entries of the file that belong to another journal ids of their
+// own, with every link between them following.
+export async function remapForeignIds(
+  importedData: ImportedData,
+  journalId: string,
+): Promise<{ data: ImportedData; foreignCount: number }> {
+  const foreignIds = await getForeignIds(importedData, journalId);
+  if (foreignIds.size === 0) return { data: importedData, foreignCount: 0 };
+
+  const remap = (id: string) =>
+    foreignIds.has(id) ? copyId(id, journalId) : id;
+  const remapNullable = (id: string | null) => (id === null ? null : remap(id));
+  const { data } = importedData;
+  return {
+    data: {
+      ...importedData,
+      data: {
+        ...data,
+        message: data.message.map((message) => ({
+          ...message,
+          id: remap(message.id),
+          summary_id: remapNullable(message.summary_id),
+          attachment_ids: message.attachment_ids.map(remap),
+        })),
+        summary: data.summary.map((summary) => ({
+          ...summary,
+          id: remap(summary.id),
+          parent_id: remapNullable(summary.parent_id),
+        })),
+        attachment: data.attachment.map((attachment) => ({
+          ...attachment,
+          id: remap(attachment.id),
+          message_id: remap(attachment.message_id),
+        })),
+      },
+    },
+    foreignCount: foreignIds.size,
+  };
 }
 
+// "replace" swaps the whole journal for the imported one, "merge" writes the
+// imported entries over the existing ones with the same id and keeps the rest.
+// Other journals are left alone either way.
 export async function importDataToIndexedDB(
   importedData: ImportedData,
+  mode: ImportMode,
+  journalId: string,
 ): Promise<void> {
-  const convertedData = convertImportedData(importedData);
-  const db = await openDB("gpt_journal", 1);
-  const transaction = db.transaction(["summary", "message"], "readwrite");
+  const { data } = await remapForeignIds(importedData, journalId);
+  const convertedData = convertImportedData(data, journalId);
+  const replacedIds =
+    mode === "replace" ? await getJournalEntryIds(journalId) : [];
+
+  // Merged entries that changed need new embeddings, and merged messages
+  // lose the attachments they no longer list.
+  const staleEmbeddingIds: string[] = [];
+  const orphanedAttachmentIds: string[] = [];
+  if (mode === "merge") {
+    const messages = new Map(
+      (await getJournalMessages(journalId)).map((m) => [m.id, m]),
+    );
+    const summaries = new Map(
+      (await getJournalSummaries(journalId)).map((s) => [s.id, s]),
+    );
+    for (const message of convertedData.message) {
+      const existing = messages.get(message.id);
+      if (existing && !isSameMessage(existing, message)) {
+        staleEmbeddingIds.push(message.id);
+        orphanedAttachmentIds.push(
+          ...(existing.attachmentIds ?? []).filter(
+            (id) => !message.attachmentIds?.includes(id),
+          ),
+        );
+      }
+    }
+    for (const summary of convertedData.summary) {
+      const existing = summaries.get(summary.id);
+      if (existing && !isSameSummary(existing, summary)) {
+        staleEmbeddingIds.push(summary.id);
+      }
+    }
+  }
+
+  // Merged facts overwrite the ones with the same id.
+  let profile: Profile | null = null;
+  if (convertedData.profile) {
+    const facts = new Map(
+      mode === "merge"
+        ? (await getProfile(journalId)).facts.map((f) => [f.id, f])
+        : [],
+    );
+    for (const fact of convertedData.profile) facts.set(fact.id, fact);
+    profile = { journalId, facts: [...facts.values()] };
+  }
+
+  const key = getJournalKey();
+  const attachments = await Promise.all(
+    convertedData.attachment.map((a) => encodeAttachment(a, key)),
+  );
+  const summaries = await Promise.all(
+    convertedData.summary.map((summary) => encodeSummary(summary, key)),
+  );
+  const messages = await Promise.all(
+    convertedData.message.map((message) => encodeMessage(message, key)),
+  );
+  const searchEntries = await Promise.all([
+    ...convertedData.summary.map((s) => getSummarySearchEntry(s, key)),
+    ...convertedData.message.map((m) => getMessageSearchEntry(m, key)),
+  ]);
+  const encodedProfile = profile && (await encodeProfile(profile, key));
+
+  const db = await getDB();
+  const transaction = db.transaction(
+    ["summary", "message", "embedding", "search", "profile", "attachment"],
+    "readwrite",
+  );
   const summaryStore = transaction.objectStore("summary");
   const messageStore = transaction.objectStore("message");
+  const embeddingStore = transaction.objectStore("embedding");
+  const searchStore = transaction.objectStore("search");
+  const attachmentStore = transaction.objectStore("attachment");
+
+  for (const id of replacedIds) {
+    await summaryStore.delete(id);
+    await messageStore.delete(id);
+    await embeddingStore.delete(id);
+    await searchStore.delete(id);
+  }
+
+  if (mode === "replace") {
+    const index = attachmentStore.index("journalId");
+    for (const id of await index.getAllKeys(journalId)) {
+      await attachmentStore.delete(id);
+    }
+  }
 
-  await summaryStore.clear();
-  await messageStore.clear();
+  for (const id of orphanedAttachmentIds) {
+    await attachmentStore.delete(id);
+  }
+
+  for (const id of staleEmbeddingIds) {
+    await embeddingStore.delete(id);
+  }
 
-  for (const summary of convertedData.summary) {
+  for (const summary of summaries) {
     await summaryStore.put(summary);
   }
 
-  for (const message of convertedData.message) {
+  for (const message of messages) {
     await messageStore.put(message);
   }
+
+  for (const entry of searchEntries) {
+    await searchStore.put(entry);
+  }
+
+  for (const attachment of attachments) {
+    await attachmentStore.put(attachment);
+  }
+
+  if (encodedProfile) {
+    await transaction.objectStore("profile").put(encodedProfile);
+  }
+
+  await transaction.done;
 }
 
-export async function exportDataFromIndexedDB(): Promise<ImportedData> {
-  const db = await openDB("gpt_journal", 1);
-  const transaction = db.transaction(["summary", "message"], "readonly");
-  const summaryStore = transaction.objectStore("summary");
-  const messageStore = transaction.objectStore("message");
+export async function exportDataFromIndexedDB(
+  journalId: string,
+): Promise<ImportedData> {
+  const summaries = await getJournalSummaries(journalId);
+  const messages = await getJournalMessages(journalId);
+  const profile = await getProfile(journalId);
+  const attachments = await getJournalAttachments(journalId);
 
   const result: ImportedData = {
-    version: "1",
+    version: EXPORT_VERSION,
     data: {
       summary: [],
       message: [],
+      profile: profile.facts.map((fact) => ({
+        id: fact.id,
+        text: fact.text,
+        updated_at: fact.updatedAt.toISOString(),
+        source: fact.source,
+      })),
+      attachment: [],
     },
   };
 
-  for await (const cursor of summaryStore) {
-    const summary = cursor.value as DBSummary;
+  for (const summary of summaries) {
     result.data.summary.push({
       id: summary.id,
       date_from: summary.dateFrom.toISOString(),
@@ -117,11 +997,12 @@ export async function exportDataFromIndexedDB(): Promise<ImportedData> {
       level: summary.level,
       tokens_count: summary.tokensCount,
       parent_id: summary.parentId !== "NULL" ? summary.parentId : null,
+      stale: summary.stale ?? false,
+      tags: summary.tags ?? [],
     });
   }
 
-  for await (const cursor of messageStore) {
-    const message = cursor.value as DBMessage;
+  for (const message of messages) {
     result.data.message.push({
       id: message.id,
       created_at: message.createdAt.toISOString(),
@@ -129,145 +1010,729 @@ export async function exportDataFromIndexedDB(): Promise<ImportedData> {
       assistant_content: message.assistantContent,
       tokens_count: message.tokensCount,
       summary_id: message.summaryId !== "NULL" ? message.summaryId : null,
+      interrupted: message.interrupted ?? false,
+      pending: message.pending ?? false,
+      mood: message.mood
+        ? {
+            score: message.mood.score,
+            emotions: message.mood.emotions,
+            energy: message.mood.energy,
+            sleep_hours: message.mood.sleepHours,
+            source: message.mood.source,
+          }
+        : null,
+      tags: message.tags ?? [],
+      attachment_ids: message.attachmentIds ?? [],
+    });
+  }
+
+  for (const attachment of attachments) {
+    result.data.attachment.push({
+      id: attachment.id,
+      message_id: attachment.messageId,
+      name: attachment.name,
+      type: attachment.type,
+      created_at: attachment.createdAt.toISOString(),
+      data: toBase64(new Uint8Array(await attachment.data.arrayBuffer())),
     });
   }
 
   return result;
 }
 
-function convertImportedData(importedData: ImportedData): {
+export async function getAllMessages(): Promise<DBMessage[]> {
+  const db = await getDB();
+  const messages = await db.getAll("message");
+  return Promise.all(messages.map(decodeMessage));
+}
+
+export async function getAllSummaries(): Promise<DBSummary[]> {
+  const db = await getDB();
+  const summaries = await db.getAll("summary");
+  return Promise.all(summaries.map(decodeSummary));
+}
+
+export async function getJournalMessages(
+  journalId: string,
+): Promise<DBMessage[]> {
+  const db = await getDB();
+  const messages = await db.getAllFromIndex(
+    "message",
+    "journalSummaryId",
+    journalKeyRange(journalId),
+  );
+  return Promise.all(messages.map(decodeMessage));
+}
+
+export async function getJournalSummaries(
+  journalId: string,
+): Promise<DBSummary[]> {
+  const db = await getDB();
+  const summaries = await db.getAllFromIndex(
+    "summary",
+    "journalParentId",
+    journalKeyRange(journalId),
+  );
+  return Promise.all(summaries.map(decodeSummary));
+}
+
+// Sets the token count of every entry. An entry is only written if its count
+// changed and it still holds what was counted, so an entry saved in the
+// meantime, like a reply or a summarized message, is left as it is.
+export async function updateTokenCounts(
+  countMessage: (message: DBMessage) => number,
+  countSummary: (summary: DBSummary) => number,
+): Promise<void> {
+  const db = await getDB();
+  const messages = await db.getAll("message");
+  const summaries = await db.getAll("summary");
+  const messageCounts = await Promise.all(
+    messages.map(async (m) => countMessage(await decodeMessage(m))),
+  );
+  const summaryCounts = await Promise.all(
+    summaries.map(async (s) => countSummary(await decodeSummary(s))),
+  );
+
+  const transaction = db.transaction(["message", "summary"], "readwrite");
+  const messageStore = transaction.objectStore("message");
+  const summaryStore = transaction.objectStore("summary");
+
+  for (const [index, message] of messages.entries()) {
+    const tokensCount = messageCounts[index];
+    const current = await messageStore.get(message.id);
+    if (
+      current &&
+      current.tokensCount !== tokensCount &&
+      current.userContent === message.userContent &&
+      current.assistantContent === message.assistantContent
+    ) {
+      await messageStore.put({ ...current, tokensCount });
+    }
+  }
+
+  for (const [index, summary] of summaries.entries()) {
+    const tokensCount = summaryCounts[index];
+    const current = await summaryStore.get(summary.id);
+    if (
+      current &&
+      current.tokensCount !== tokensCount &&
+      current.content === summary.content
+    ) {
+      await summaryStore.put({ ...current, tokensCount });
+    }
+  }
+
+  await transaction.done;
+}
+
+export async function getAllEmbeddings(): Promise<DBEmbedding[]> {
+  const db = await getDB();
+  const embeddings = await db.getAll("embedding");
+  return Promise.all(embeddings.map(decodeEmbedding));
+}
+
+export async function getEmbeddings(ids: string[]): Promise<DBEmbedding[]> {
+  const db = await getDB();
+  const transaction = db.transaction("embedding");
+  const embeddings: StoredEmbedding[] = [];
+  for (const id of ids) {
+    const embedding = await transaction.store.get(id);
+    if (embedding) embeddings.push(embedding);
+  }
+  await transaction.done;
+  return Promise.all(embeddings.map(decodeEmbedding));
+}
+
+export async function putEmbeddings(embeddings: DBEmbedding[]): Promise<void> {
+  const key = getJournalKey();
+  const encoded = await Promise.all(
+    embeddings.map((embedding) => encodeEmbedding(embedding, key)),
+  );
+
+  const db = await getDB();
+  const transaction = db.transaction("embedding", "readwrite");
+  for (const embedding of encoded) {
+    await transaction.store.put(embedding);
+  }
+  await transaction.done;
+}
+
+export async function getMessage(id: string): Promise<DBMessage | undefined> {
+  const db = await getDB();
+  const message = await db.get("message", id);
+  return message && decodeMessage(message);
+}
+
+export async function getSummary(id: string): Promise<DBSummary | undefined> {
+  const db = await getDB();
+  const summary = await db.get("summary", id);
+  return summary && decodeSummary(summary);
+}
+
+// Entries of the journal with the tag. Other journals may have the same
+// tag, and their entries are left encrypted.
+export async function getTaggedEntries(
+  journalId: string,
+  tag: string,
+): Promise<{ messages: DBMessage[]; summaries: DBSummary[] }> {
+  const [tagKey] = await hashTerms([tag], getJournalKey());
+  const db = await getDB();
+  const messages = (
+    await db.getAllFromIndex("message", "tagKeys", tagKey)
+  ).filter((m) => m.journalId === journalId);
+  const summaries = (
+    await db.getAllFromIndex("summary", "tagKeys", tagKey)
+  ).filter((s) => s.journalId === journalId);
+  return {
+    messages: await Promise.all(messages.map(decodeMessage)),
+    summaries: await Promise.all(summaries.map(decodeSummary)),
+  };
+}
+
+export async function findSearchEntries(
+  term: string,
+): Promise<DBSearchEntry[]> {
+  const [hashedTerm] = await hashTerms([term], getJournalKey());
+  const db = await getDB();
+  return db.getAllFromIndex("search", "terms", hashedTerm);
+}
+
+export async function rebuildSearchIndex(): Promise<void> {
+  const key = getJournalKey();
+  const summaries = await getAllSummaries();
+  const messages = await getAllMessages();
+  const entries = await Promise.all([
+    ...summaries.map((summary) => getSummarySearchEntry(summary, key)),
+    ...messages.map((message) => getMessageSearchEntry(message, key)),
+  ]);
+
+  const db = await getDB();
+  const transaction = db.transaction("search", "readwrite");
+
+  await transaction.store.clear();
+
+  for (const entry of entries) {
+    await transaction.store.put(entry);
+  }
+
+  await transaction.done;
+}
+
+export async function saveBackup(
+  journalId: string,
+  data: ImportedData,
+): Promise<void> {
+  const key = getJournalKey();
+  const json = JSON.stringify(data);
+  const backup: StoredBackup = {
+    id: uuidv4(),
+    journalId,
+    createdAt: new Date(),
+    payload: key ? await encryptString(key, json) : json,
+  };
+
+  const db = await getDB();
+  const transaction = db.transaction("backup", "readwrite");
+  await transaction.store.put(backup);
+
+  const backups = (await transaction.store.getAll()).filter(
+    (b) => b.journalId === journalId,
+  );
+  backups.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  for (const old of backups.slice(BACKUP_LIMIT)) {
+    await transaction.store.delete(old.id);
+  }
+
+  await transaction.done;
+}
+
+async function decodeBackup(backup: StoredBackup): Promise<JournalBackup> {
+  const key = getJournalKey();
+  const json = key ? await decryptString(key, backup.payload) : backup.payload;
+  return {
+    id: backup.id,
+    journalId: backup.journalId,
+    createdAt: backup.createdAt,
+    data: JSON.parse(json),
+  };
+}
+
+// Newest first.
+export async function getBackups(): Promise<JournalBackup[]> {
+  const db = await getDB();
+  const backups = await db.getAll("backup");
+  backups.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  return Promise.all(backups.map(decodeBackup));
+}
+
+export async function getEncryptionConfig(): Promise<EncryptionConfig | null> {
+  const db = await getDB();
+  return (await db.get("meta", "encryption")) ?? null;
+}
+
+// Rewrites the whole journal under a new key, or in plain text when the key
+// is null. The config is stored in the same transaction, so the journal can
+// never end up encrypted with a key the stored config doesn't describe.
+export async function reencryptJournal(
+  config: EncryptionConfig | null,
+  key: JournalKey | null,
+): Promise<void> {
+  const summaries = await getAllSummaries();
+  const messages = await getAllMessages();
+  const embeddings = await getAllEmbeddings();
+  const backups = await getBackups();
+  const reports = await getAllReports();
+  const profiles = await getAllProfiles();
+  const attachments = await getAllAttachments();
+
+  const encodedSummaries = await Promise.all(
+    summaries.map((summary) => encodeSummary(summary, key)),
+  );
+  const encodedMessages = await Promise.all(
+    messages.map((message) => encodeMessage(message, key)),
+  );
+  const encodedEmbeddings = await Promise.all(
+    embeddings.map((embedding) => encodeEmbedding(embedding, key)),
+  );
+  const encodedReports = await Promise.all(
+    reports.map((report) => encodeReport(report, key)),
+  );
+  const encodedProfiles = await Promise.all(
+    profiles.map((profile) => encodeProfile(profile, key)),
+  );
+  const encodedAttachments = await Promise.all(
+    attachments.map((attachment) => encodeAttachment(attachment, key)),
+  );
+  const searchEntries = await Promise.all([
+    ...summaries.map((summary) => getSummarySearchEntry(summary, key)),
+    ...messages.map((message) => getMessageSearchEntry(message, key)),
+  ]);
+  const encodedBackups: StoredBackup[] = await Promise.all(
+    backups.map(async (backup) => {
+      const json = JSON.stringify(backup.data);
+      return {
+        id: backup.id,
+        journalId: backup.journalId,
+        createdAt: backup.createdAt,
+        payload: key ? await encryptString(key, json) : json,
+      };
+    }),
+  );
+
+  const db = await getDB();
+  const transaction = db.transaction(
+    [
+      "summary",
+      "message",
+      "embedding",
+      "search",
+      "backup",
+      "report",
+      "profile",
+      "attachment",
+      "meta",
+    ],
+    "readwrite",
+  );
+  const summaryStore = transaction.objectStore("summary");
+  const messageStore = transaction.objectStore("message");
+  const embeddingStore = transaction.objectStore("embedding");
+  const searchStore = transaction.objectStore("search");
+  const backupStore = transaction.objectStore("backup");
+  const reportStore = transaction.objectStore("report");
+  const profileStore = transaction.objectStore("profile");
+  const attachmentStore = transaction.objectStore("attachment");
+  const metaStore = transaction.objectStore("meta");
+
+  for (const summary of encodedSummaries) {
+    await summaryStore.put(summary);
+  }
+
+  for (const message of encodedMessages) {
+    await messageStore.put(message);
+  }
+
+  for (const embedding of encodedEmbeddings) {
+    await embeddingStore.put(embedding);
+  }
+
+  await searchStore.clear();
+  for (const entry of searchEntries) {
+    await searchStore.put(entry);
+  }
+
+  for (const backup of encodedBackups) {
+    await backupStore.put(backup);
+  }
+
+  for (const report of encodedReports) {
+    await reportStore.put(report);
+  }
+
+  for (const profile of encodedProfiles) {
+    await profileStore.put(profile);
+  }
+
+  for (const attachment of encodedAttachments) {
+    await attachmentStore.put(attachment);
+  }
+
+  if (config) {
+    await metaStore.put(config, "encryption");
+  } else {
+    await metaStore.delete("encryption");
+  }
+
+  await transaction.done;
+}
+
+export function convertImportedData(
+  importedData: ImportedData,
+  journalId: string,
+): {
   message: DBMessage[];
   summary: DBSummary[];
+  profile: ProfileFact[] | null;
+  attachment: Attachment[];
 } {
   const dbMessages: DBMessage[] = importedData.data.message.map((msg) => ({
     id: msg.id,
+    journalId,
     createdAt: new Date(msg.created_at),
     userContent: msg.user_content,
     assistantContent: msg.assistant_content,
     tokensCount: msg.tokens_count,
     summaryId: msg.summary_id ?? "NULL",
+    interrupted: msg.interrupted || undefined,
+    pending: msg.pending || undefined,
+    mood: msg.mood
+      ? {
+          score: msg.mood.score,
+          emotions: msg.mood.emotions,
+          energy: msg.mood.energy,
+          sleepHours: msg.mood.sleep_hours,
+          source: msg.mood.source,
+        }
+      : undefined,
+    tags: msg.tags.length > 0 ? msg.tags : undefined,
+    attachmentIds:
+      msg.attachment_ids.length > 0 ? msg.attachment_ids : undefined,
   }));
 
   const dbSummaries: DBSummary[] = importedData.data.summary.map((sum) => ({
     id: sum.id,
+    journalId,
     dateFrom: new Date(sum.date_from),
     dateTo: new Date(sum.date_to),
     content: sum.content,
     level: sum.level,
     tokensCount: sum.tokens_count,
     parentId: sum.parent_id ?? "NULL",
+    stale: sum.stale || undefined,
+    tags: sum.tags.length > 0 ? sum.tags : undefined,
   }));
 
-  return { message: dbMessages, summary: dbSummaries };
-}
-
-export function getActiveMessages(): Promise<DBMessage[]> {
-  return new Promise((resolve, reject) => {
-    const request = indexedDB.open("gpt_journal", 1);
+  const profileFacts: ProfileFact[] | null =
+    importedData.data.profile?.map((fact) => ({
+      id: fact.id,
+      text: fact.text,
+      updatedAt: new Date(fact.updated_at),
+      source: fact.source,
+    })) ?? null;
 
-    request.onerror = () => {
-      reject(request.error);
+  const attachments: Attachment[] = importedData.data.attachment.map((a) => {
+    const data = fromBase64(a.data);
+    return {
+      id: a.id,
+      journalId,
+      messageId: a.message_id,
+      name: a.name,
+      type: a.type,
+      size: data.length,
+      createdAt: new Date(a.created_at),
+      data: new Blob([data], { type: a.type }),
     };
+  });
 
-    request.onsuccess = () => {
-      const db = request.result;
-      const transaction = db.transaction("message", "readonly");
-      const store = transaction.objectStore("message");
+  return {
+    message: dbMessages,
+    summary: dbSummaries,
+    profile: profileFacts,
+    attachment: attachments,
+  };
+}
 
-      const index = store.index("summaryId");
-      const keyRange = IDBKeyRange.only("NULL");
-      const messages: DBMessage[] = [];
+export async function getActiveMessages(
+  journalId: string,
+): Promise<DBMessage[]> {
+  const db = await getDB();
+  const messages = await db.getAllFromIndex("message", "journalSummaryId", [
+    journalId,
+    "NULL",
+  ]);
+  return Promise.all(messages.map(decodeMessage));
+}
 
-      const cursorRequest = index.openCursor(keyRange);
-      cursorRequest.onerror = () => {
-        reject(cursorRequest.error);
-      };
+export async function getMessagesBySummaryId(
+  summaryId: string | "NULL",
+): Promise<DBMessage[]> {
+  const db = await getDB();
+  const messages = await db.getAllFromIndex("message", "summaryId", summaryId);
+  return Promise.all(messages.map(decodeMessage));
+}
 
-      cursorRequest.onsuccess = () => {
-        const cursor = cursorRequest.result;
-        if (cursor) {
-          messages.push(cursor.value);
-          cursor.continue();
-        } else {
-          resolve(messages);
-        }
-      };
-    };
-  });
+export async function getActiveSummaries(
+  journalId: string,
+): Promise<DBSummary[]> {
+  const db = await getDB();
+  const summaries = await db.getAllFromIndex("summary", "journalParentId", [
+    journalId,
+    "NULL",
+  ]);
+  return Promise.all(summaries.map(decodeSummary));
+}
+
+export async function getSummariesByParentId(
+  parentId: string | "NULL",
+): Promise<DBSummary[]> {
+  const db = await getDB();
+  const summaries = await db.getAllFromIndex("summary", "parentId", parentId);
+  return Promise.all(summaries.map(decodeSummary));
 }
 
-export function getActiveSummaries(): Promise<DBSummary[]> {
-  return new Promise((resolve, reject) => {
-    const request = indexedDB.open("gpt_journal", 1);
+export async function updateData(
+  summaries: DBSummary[],
+  messages: DBMessage[],
+): Promise<void> {
+  // WebCrypto is async and would let the transaction auto-commit, so all the
+  // encryption happens before it starts.
+  const key = getJournalKey();
+  const encodedSummaries = await Promise.all(
+    summaries.map((summary) => encodeSummary(summary, key)),
+  );
+  const encodedMessages = await Promise.all(
+    messages.map((message) => encodeMessage(message, key)),
+  );
+  const searchEntries = await Promise.all([
+    ...summaries.map((summary) => getSummarySearchEntry(summary, key)),
+    ...messages.map((message) => getMessageSearchEntry(message, key)),
+  ]);
 
-    request.onerror = () => {
-      reject(request.error);
-    };
+  const db = await getDB();
+  const transaction = db.transaction(
+    ["summary", "message", "search"],
+    "readwrite",
+  );
+  const summaryStore = transaction.objectStore("summary");
+  const messageStore = transaction.objectStore("message");
+  const searchStore = transaction.objectStore("search");
 
-    request.onsuccess = () => {
-      const db = request.result;
-      const transaction = db.transaction("summary", "readonly");
-      const store = transaction.objectStore("summary");
+  for (const summary of encodedSummaries) {
+    await summaryStore.put(summary);
+  }
 
-      const index = store.index("parentId");
-      const keyRange = IDBKeyRange.only("NULL");
-      const summaries: DBSummary[] = [];
+  for (const message of encodedMessages) {
+    await messageStore.put(message);
+  }
 
-      const cursorRequest = index.openCursor(keyRange);
-      cursorRequest.onerror = () => {
-        reject(cursorRequest.error);
-      };
+  for (const entry of searchEntries) {
+    await searchStore.put(entry);
+  }
 
-      cursorRequest.onsuccess = () => {
-        const cursor = cursorRequest.result;
-        if (cursor) {
-          summaries.push(cursor.value);
-          cursor.continue();
-        } else {
-          resolve(summaries);
-        }
-      };
-    };
-  });
+  await transaction.done;
 }
 
-export function updateData(
-  summaries: DBSummary[],
-  messages: DBMessage[],
+// Removes entries together with everything derived from them and attached
+// to them. Summaries they belonged to are left for the caller to deal with.
+export async function deleteEntries(
+  summaryIds: string[],
+  messageIds: string[],
 ): Promise<void> {
-  return new Promise((resolve, reject) => {
-    const request = indexedDB.open("gpt_journal", 1);
+  const db = await getDB();
+  const transaction = db.transaction(
+    ["summary", "message", "embedding", "search", "attachment"],
+    "readwrite",
+  );
+  const summaryStore = transaction.objectStore("summary");
+  const messageStore = transaction.objectStore("message");
+  const embeddingStore = transaction.objectStore("embedding");
+  const searchStore = transaction.objectStore("search");
+  const attachmentStore = transaction.objectStore("attachment");
 
-    request.onerror = () => {
-      console.error("Ошибка открытия IndexedDB:", request.error);
-      reject(request.error);
-    };
+  for (const id of summaryIds) {
+    await summaryStore.delete(id);
+  }
+
+  for (const id of messageIds) {
+    await messageStore.delete(id);
+    const index = attachmentStore.index("messageId");
+    for (const attachmentId of await index.getAllKeys(id)) {
+      await attachmentStore.delete(attachmentId);
+    }
+  }
 
-    request.onsuccess = () => {
-      const db = request.result;
+  for (const id of [...summaryIds, ...messageIds]) {
+    await embeddingStore.delete(id);
+    await searchStore.delete(id);
+  }
 
-      const transaction = db.transaction(["summary", "message"], "readwrite");
+  await transaction.done;
+}
 
-      transaction.onerror = () => {
-        reject(transaction.error);
-      };
+export async function deleteEmbeddings(ids: string[]): Promise<void> {
+  const db = await getDB();
+  const transaction = db.transaction("embedding", "readwrite");
+  for (const id of ids) {
+    await transaction.store.delete(id);
+  }
+  await transaction.done;
+}
 
-      transaction.oncomplete = () => {
-        resolve();
-      };
+export async function getJournals(): Promise<Journal[]> {
+  const db = await getDB();
+  return db.getAll("journal");
+}
 
-      const summaryStore = transaction.objectStore("summary");
-      const messageStore = transaction.objectStore("message");
+export async function getJournal(id: string): Promise<Journal | undefined> {
+  const db = await getDB();
+  return db.get("journal", id);
+}
 
-      // Вставляем данные в хранилище summary
-      summaries.forEach((summaryItem) => {
-        summaryStore.put(summaryItem);
-      });
+export async function putJournal(journal: Journal): Promise<void> {
+  const db = await getDB();
+  await db.put("journal", journal);
+}
 
-      // Вставляем данные в хранилище message
-      messages.forEach((messageItem) => {
-        messageStore.put(messageItem);
-      });
-    };
-  });
+// Deletes the journal with all of its entries, attachments, backups, reports
+// and profile.
+export async function deleteJournal(id: string): Promise<void> {
+  const entryIds = await getJournalEntryIds(id);
+
+  const db = await getDB();
+  const transaction = db.transaction(
+    [
+      "summary",
+      "message",
+      "embedding",
+      "search",
+      "backup",
+      "report",
+      "profile",
+      "attachment",
+      "journal",
+    ],
+    "readwrite",
+  );
+  const summaryStore = transaction.objectStore("summary");
+  const messageStore = transaction.objectStore("message");
+  const embeddingStore = transaction.objectStore("embedding");
+  const searchStore = transaction.objectStore("search");
+  const backupStore = transaction.objectStore("backup");
+
+  for (const entryId of entryIds) {
+    await summaryStore.delete(entryId);
+    await messageStore.delete(entryId);
+    await embeddingStore.delete(entryId);
+    await searchStore.delete(entryId);
+  }
+
+  for (const backup of await backupStore.getAll()) {
+    if (backup.journalId === id) await backupStore.delete(backup.id);
+  }
+
+  const reportStore = transaction.objectStore("report");
+  for (const reportId of await reportStore.index("journalId").getAllKeys(id)) {
+    await reportStore.delete(reportId);
+  }
+
+  const attachmentStore = transaction.objectStore("attachment");
+  const attachmentIds = await attachmentStore.index("journalId").getAllKeys(id);
+  for (const attachmentId of attachmentIds) {
+    await attachmentStore.delete(attachmentId);
+  }
+
+  await transaction.objectStore("profile").delete(id);
+  await transaction.objectStore("journal").delete(id);
+  await transaction.done;
+}
+
+async function getAllReports(): Promise<Report[]> {
+  const db = await getDB();
+  const reports = await db.getAll("report");
+  return Promise.all(reports.map(decodeReport));
+}
+
+export async function getReports(journalId: string): Promise<Report[]> {
+  const db = await getDB();
+  const reports = await db.getAllFromIndex("report", "journalId", journalId);
+  return Promise.all(reports.map(decodeReport));
+}
+
+export async function putReport(report: Report): Promise<void> {
+  const encoded = await encodeReport(report, getJournalKey());
+  const db = await getDB();
+  await db.put("report", encoded);
+}
+
+async function getAllProfiles(): Promise<Profile[]> {
+  const db = await getDB();
+  const profiles = await db.getAll("profile");
+  return Promise.all(profiles.map(decodeProfile));
+}
+
+// A journal without a profile yet has an empty one.
+export async function getProfile(journalId: string): Promise<Profile> {
+  const db = await getDB();
+  const profile = await db.get("profile", journalId);
+  return profile ? decodeProfile(profile) : { journalId, facts: [] };
+}
+
+export async function putProfile(profile: Profile): Promise<void> {
+  const encoded = await encodeProfile(profile, getJournalKey());
+  const db = await getDB();
+  await db.put("profile", encoded);
+}
+
+async function getAllAttachments(): Promise<Attachment[]> {
+  const db = await getDB();
+  const attachments = await db.getAll("attachment");
+  return Promise.all(attachments.map(decodeAttachment));
+}
+
+async function getJournalAttachments(journalId: string): Promise<Attachment[]> {
+  const db = await getDB();
+  const attachments = await db.getAllFromIndex(
+    "attachment",
+    "journalId",
+    journalId,
+  );
+  return Promise.all(attachments.map(decodeAttachment));
+}
+
+// In the order the message lists them.
+export async function getAttachments(
+  message: DBMessage,
+): Promise<Attachment[]> {
+  const db = await getDB();
+  const attachments = await Promise.all(
+    (message.attachmentIds ?? []).map((id) => db.get("attachment", id)),
+  );
+  return Promise.all(
+    attachments.flatMap((attachment) =>
+      attachment ? [decodeAttachment(attachment)] : [],
+    ),
+  );
+}
+
+export async function putAttachments(attachments: Attachment[]): Promise<void> {
+  const key = getJournalKey();
+  const encoded = await Promise.all(
+    attachments.map((attachment) => encodeAttachment(attachment, key)),
+  );
+  const db = await getDB();
+  const transaction = db.transaction("attachment", "readwrite");
+  for (const attachment of encoded) {
+    await transaction.store.put(attachment);
+  }
+  await transaction.done;
 }
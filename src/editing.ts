@@ -0,0 +1,165 @@
+import { QueryClient, useQueryClient } from "@tanstack/react-query";
+import { useCallback } from "react";
+import {
+  DBSummary,
+  deleteEmbeddings,
+  deleteEntries,
+  getAllSummaries,
+  getSummary,
+  updateData,
+} from "./db.ts";
+import {
+  ChatItem,
+  ChatMessage,
+  compressMessages,
+  countMessageTokens,
+  createCompletion,
+  embedItems,
+  getChat,
+  getSummaryChildren,
+  isPending,
+} from "./ai.ts";
+import { trackMood } from "./mood.ts";
+import { mergeTags, updateSummaryTags } from "./tags.ts";
+
+// Marks the summary and every summary above it, up to the active one. They
+// all retell the changed entry in some form.
+async function markStale(summaryId: string | "NULL") {
+  const summaries: DBSummary[] = [];
+  let id = summaryId;
+  while (id !== "NULL") {
+    const summary = await getSummary(id);
+    if (!summary) break;
+    summaries.push({ ...summary, stale: true });
+    id = summary.parentId;
+  }
+  await updateData(summaries, []);
+}
+
+async function regenerateSummary(summary: DBSummary) {
+  const children = await getSummaryChildren(summary.id);
+
+  // Everything it was made from is gone, and so is the reason for it.
+  if (children.length === 0) {
+    await deleteEntries([summary.id], []);
+    return;
+  }
+
+  const { content, dateFrom, dateTo, tokensCount, tags } =
+    await compressMessages(children);
+  const regenerated: DBSummary = {
+    ...summary,
+    content,
+    dateFrom,
+    dateTo,
+    tokensCount,
+    tags,
+  };
+  delete regenerated.stale;
+  await updateData([regenerated], []);
+
+  await deleteEmbeddings([summary.id]);
+  embedItems([
+    { ...regenerated, type: "summary", timestamp: regenerated.dateTo },
+  ]).catch((e) => console.error("Failed to embed summary", e));
+}
+
+let running: Promise<void> | null = null;
+
+// Writes stale summaries anew from the bottom up, so each one is made from
+// children that are already up to date.
+export function regenerateStaleSummaries(): Promise<void> {
+  running ??= (async () => {
+    try {
+      for (;;) {
+        const stale = (await getAllSummaries())
+          .filter((summary) => summary.stale)
+          .sort((a, b) => a.level - b.level);
+        if (stale.length === 0) return;
+        await regenerateSummary(stale[0]);
+      }
+    } finally {
+      running = null;
+    }
+  })();
+  return running;
+}
+
+function refreshSummaries(client: QueryClient) {
+  regenerateStaleSummaries()
+    .catch((e) => console.error("Failed to regenerate summaries", e))
+    .finally(() => client.invalidateQueries({ queryKey: ["chat"] }));
+}
+
+export function useMessageActions() {
+  const client = useQueryClient();
+
+  const edit = useCallback(
+    async (message: ChatMessage, userContent: string) => {
+      const edited = { ...message, userContent };
+      edited.tokensCount = countMessageTokens(edited);
+      await updateData([], [edited]);
+      if (!isPending(message)) {
+        await deleteEmbeddings([edited.id]);
+        embedItems([edited]).catch((e) =>
+          console.error("Failed to embed message", e),
+        );
+        trackMood(edited.id)
+          .catch((e) => console.error("Failed to track mood", e))
+          .finally(() => client.invalidateQueries({ queryKey: ["chat"] }));
+      }
+      await markStale(edited.summaryId);
+      await client.invalidateQueries({ queryKey: ["chat"] });
+      refreshSummaries(client);
+    },
+    [client],
+  );
+
+  const remove = useCallback(
+    async (message: ChatMessage) => {
+      await deleteEntries([], [message.id]);
+      await markStale(message.summaryId);
+      await client.invalidateQueries({ queryKey: ["chat"] });
+      refreshSummaries(client);
+    },
+    [client],
+  );
+
+  const regenerate = useCallback(
+    async (message: ChatMessage) => {
+      const show = (updated: ChatMessage) => {
+        const replace = (items: ChatItem[] | undefined) =>
+          items?.map((item) => (item.id === updated.id ? updated : item));
+        client.setQueryData<ChatItem[]>(["chat", message.journalId], replace);
+        client.setQueryData<ChatItem[]>(
+          ["chat", "children", message.summaryId],
+          replace,
+        );
+      };
+
+      // The reply is written again from what the journal held at the time.
+      const chat = (await getChat(message.journalId)).filter(
+        (item) => !isPending(item) && item.timestamp < message.createdAt,
+      );
+      try {
+        await createCompletion(chat, message, show);
+      } finally {
+        await client.invalidateQueries({ queryKey: ["chat"] });
+      }
+      await markStale(message.summaryId);
+      refreshSummaries(client);
+    },
+    [client],
+  );
+
+  const setTags = useCallback(
+    async (message: ChatMessage, tags: string[]) => {
+      await updateData([], [{ ...message, tags: mergeTags(tags) }]);
+      await updateSummaryTags(message.summaryId);
+      await client.invalidateQueries({ queryKey: ["chat"] });
+    },
+    [client],
+  );
+
+  return { edit, remove, regenerate, setTags };
+}
@@ -0,0 +1,200 @@
+import {
+  createEncryptionConfig,
+  decryptString,
+  deriveKey,
+  EncryptionConfig,
+  encryptString,
+  getJournalKey,
+  JournalKey,
+  lockJournal,
+  openEncryptionConfig,
+  setJournalKey,
+} from "./crypto.ts";
+import { getEncryptionConfig, ImportedData, reencryptJournal } from "./db.ts";
+import {
+  clearProviderSettingsCache,
+  getProviderSettings,
+  loadProviderSettings,
+  saveProviderSettings,
+} from "./providers.ts";
+import { useSyncExternalStore } from "react";
+import { getStrings } from "./i18n.ts";
+
+// "failed" when the config could not be read, which leaves nothing to show.
+export type LockStatus = "loading" | "locked" | "unlocked" | "failed";
+
+let status: LockStatus = "loading";
+let config: EncryptionConfig | null = null;
+let loadError: string | null = null;
+const listeners = new Set<() => void>();
+
+function notify() {
+  listeners.forEach((listener) => listener());
+}
+
+function setStatus(newStatus: LockStatus) {
+  status = newStatus;
+  notify();
+}
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function useLockStatus(): LockStatus {
+  return useSyncExternalStore(subscribe, () => status);
+}
+
+export function isEncryptionEnabled(): boolean {
+  return config !== null;
+}
+
+export function useEncryptionEnabled(): boolean {
+  return useSyncExternalStore(subscribe, isEncryptionEnabled);
+}
+
+export function getLoadError(): string | null {
+  return loadError;
+}
+
+export async function initEncryption() {
+  try {
+    config = await getEncryptionConfig();
+    if (config) {
+      lockJournal();
+      setStatus("locked");
+    } else {
+      await loadProviderSettings();
+      setStatus("unlocked");
+    }
+  } catch (e) {
+    loadError = e instanceof Error ? e.message : String(e);
+    setStatus("failed");
+    throw e;
+  }
+}
+
+export async function unlock(passphrase: string) {
+  if (!config) return;
+  setJournalKey(await openEncryptionConfig(config, passphrase));
+  await loadProviderSettings();
+  setStatus("unlocked");
+}
+
+export function lock() {
+  if (!config) return;
+  lockJournal();
+  clearProviderSettingsCache();
+  setStatus("locked");
+}
+
+async function switchKey(
+  newConfig: EncryptionConfig | null,
+  newKey: JournalKey | null,
+) {
+  const providers = getProviderSettings();
+  await reencryptJournal(newConfig, newKey);
+  config = newConfig;
+  setJournalKey(newKey);
+  notify();
+  await saveProviderSettings(providers);
+}
+
+export async function enableEncryption(passphrase: string) {
+  if (config) throw new Error("Encryption is already enabled");
+  const created = await createEncryptionConfig(passphrase);
+  await switchKey(created.config, created.key);
+}
+
+export async function changePassphrase(current: string, next: string) {
+  if (!config) throw new Error("Encryption is not enabled");
+  await openEncryptionConfig(config, current);
+  const created = await createEncryptionConfig(next);
+  await switchKey(created.config, created.key);
+}
+
+export async function disableEncryption(current: string) {
+  if (!config) throw new Error("Encryption is not enabled");
+  await openEncryptionConfig(config, current);
+  await switchKey(null, null);
+}
+
+const ACTIVITY_EVENTS = ["pointerdown", "keydown", "scroll", "touchstart"];
+
+// Locks the journal once nothing happened on the page for the given time.
+// Returns a function that stops watching.
+export function startAutoLock(minutes: number): () => void {
+  let timeout: ReturnType<typeof setTimeout> | undefined;
+
+  const restart = () => {
+    clearTimeout(timeout);
+    timeout = setTimeout(lock, minutes * 60 * 1000);
+  };
+
+  for (const event of ACTIVITY_EVENTS) {
+    window.addEventListener(event, restart, { passive: true });
+  }
+  restart();
+
+  return () => {
+    clearTimeout(timeout);
+    for (const event of ACTIVITY_EVENTS) {
+      window.removeEventListener(event, restart);
+    }
+  };
+}
+
+export interface EncryptedExport {
+  version: string;
+  encryption: {
+    salt: string;
+    iterations: number;
+  };
+  payload: string;
+}
+
+export function isEncryptedExport(value: unknown): value is EncryptedExport {
+  return typeof value === "object" && value !== null && "payload" in value;
+}
+
+// An encrypted journal is exported encrypted as well, under the same
+// passphrase, so the file is no weaker than the data it came from.
+export async function protectExport(
+  data: ImportedData,
+): Promise<ImportedData | EncryptedExport> {
+  const key = getJournalKey();
+  if (!config || !key) return data;
+  return {
+    version: data.version,
+    encryption: { salt: config.salt, iterations: config.iterations },
+    payload: await encryptString(key, JSON.stringify(data.data)),
+  };
+}
+
+export async function unprotectExport(
+  file: EncryptedExport,
+  passphrase: string,
+): Promise<ImportedData> {
+  const { salt, iterations } = file.encryption;
+  const key = await deriveKey(passphrase, salt, iterations);
+  try {
+    const data = JSON.parse(await decryptString(key, file.payload));
+    return { version: file.version, data };
+  } catch {
+    throw new Error(getStrings().encryption.wrongPassphrase);
+  }
+}
+
+// Files exported by this journal under its current passphrase open without
+// asking for it again.
+export async function tryUnprotectExport(
+  file: EncryptedExport,
+): Promise<ImportedData | null> {
+  const key = getJournalKey();
+  if (!config || !key || config.salt !== file.encryption.salt) return null;
+  const data = JSON.parse(await decryptString(key, file.payload));
+  return { version: file.version, data };
+}
@@ -0,0 +1,264 @@
+import { v5 as uuidv5 } from "uuid";
+import {
+  copyId,
+  DBMessage,
+  findForeignIds,
+  getJournalMessages,
+  getJournalSummaries,
+  updateData,
+} from "./db.ts";
+import { countMessageTokens } from "./ai.ts";
+import { scheduleCompression } from "./compression.ts";
+import { getStrings } from "./i18n.ts";
+import { dateTimeFormat } from "./format.ts";
+
+// Entries from other apps, before they belong to a journal.
+export interface ExternalEntry {
+  id: string;
+  createdAt: Date;
+  userContent: string;
+  assistantContent: string;
+}
+
+export interface ChatGPTConversation {
+  id: string;
+  title: string;
+  createdAt: Date;
+  entries: ExternalEntry[];
+}
+
+export type ExternalSource =
+  | { type: "chatgpt"; conversations: ChatGPTConversation[] }
+  | { type: "dayone"; entries: ExternalEntry[] }
+  | { type: "markdown"; entries: ExternalEntry[]; skipped: string[] };
+
+type Json = Record<string, unknown>;
+
+function isObject(value: unknown): value is Json {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function fromUnixTime(value: unknown): Date | null {
+  return typeof value === "number" ? new Date(value * 1000) : null;
+}
+
+function isChatGPTExport(json: unknown): json is Json[] {
+  return (
+    Array.isArray(json) &&
+    json.length > 0 &&
+    json.every((c) => isObject(c) && isObject(c.mapping))
+  );
+}
+
+function isDayOneExport(json: unknown): json is { entries: Json[] } {
+  return (
+    isObject(json) &&
+    Array.isArray(json.entries) &&
+    json.entries.every((e) => isObject(e) && typeof e.creationDate === "string")
+  );
+}
+
+function getChatGPTText(message: Json): string {
+  const content = isObject(message.content) ? message.content : {};
+  const parts = Array.isArray(content.parts) ? content.parts : [];
+  // Images and other attachments come as objects among the parts.
+  return parts
+    .filter((part) => typeof part === "string")
+    .join("\n")
+    .trim();
+}
+
+// The mapping is a tree of every edit and regenerated reply; the branch that
+// ends in current_node is the one the conversation was left at.
+function getChatGPTBranch(conversation: Json): Json[] {
+  const mapping = conversation.mapping as Record<string, unknown>;
+  const branch: Json[] = [];
+  let nodeId = conversation.current_node;
+
+  while (typeof nodeId === "string" && isObject(mapping[nodeId])) {
+    const node = mapping[nodeId] as Json;
+    if (isObject(node.message)) branch.push(node.message);
+    nodeId = node.parent;
+  }
+
+  return branch.reverse();
+}
+
+// Each user message becomes an entry with the replies that followed it.
+function parseChatGPTConversation(
+  conversation: Json,
+): ChatGPTConversation | null {
+  const createdAt = fromUnixTime(conversation.create_time) ?? new Date();
+  const entries: ExternalEntry[] = [];
+
+  for (const message of getChatGPTBranch(conversation)) {
+    const role = isObject(message.author) ? message.author.role : null;
+    const text = getChatGPTText(message);
+    if (text === "") continue;
+
+    if (role === "user" && typeof message.id === "string") {
+      entries.push({
+        id: message.id,
+        createdAt: fromUnixTime(message.create_time) ?? createdAt,
+        userContent: text,
+        assistantContent: "",
+      });
+    }
+    const last = entries[entries.length - 1];
+    if (role === "assistant" && last) {
+      last.assistantContent = last.assistantContent
+        ? `${last.assistantContent}\n\n${text}`
+        : text;
+    }
+  }
+
+  if (entries.length === 0) return null;
+  return {
+    id: typeof conversation.id === "string" ? conversation.id : entries[0].id,
+    title: typeof conversation.title === "string" ? conversation.title : "",
+    createdAt,
+    entries,
+  };
+}
+
+// Day One keeps photos as links to files that are not in the JSON.
+const DAY_ONE_MOMENT = /!\[[^\]]*\]\(dayone-moment:[^)]*\)\n?/g;
+
+function parseDayOneEntries(entries: Json[]): ExternalEntry[] {
+  return entries.flatMap((entry) => {
+    const text =
+      typeof entry.text === "string"
+        ? entry.text.replace(DAY_ONE_MOMENT, "").trim()
+        : "";
+    const createdAt = new Date(entry.creationDate as string);
+    if (text === "" || typeof entry.uuid !== "string") return [];
+    if (Number.isNaN(createdAt.getTime())) return [];
+    return [
+      { id: entry.uuid, createdAt, userContent: text, assistantContent: "" },
+    ];
+  });
+}
+
+// Reads a ChatGPT conversations.json or a Day One JSON export, or returns
+// null for any other file.
+export function parseExternalJson(json: unknown): ExternalSource | null {
+  if (isChatGPTExport(json)) {
+    const conversations = json
+      .map(parseChatGPTConversation)
+      .filter((c) => c !== null)
+      .sort((a, b) => a.createdAt.valueOf() - b.createdAt.valueOf());
+    return { type: "chatgpt", conversations };
+  }
+  if (isDayOneExport(json)) {
+    return { type: "dayone", entries: parseDayOneEntries(json.entries) };
+  }
+  return null;
+}
+
+// "2024-03-15.md", "2024-03-15 21-30 Evening.md", "2024/2024-03-15.md"
+const FILE_DATE = /(\d{4})-(\d{2})-(\d{2})(?:[ T_](\d{2})[-:.](\d{2}))?/;
+
+const FRONT_MATTER = /^---\n[\s\S]*?\n---\n/;
+
+const MARKDOWN_FILE = /\.(md|markdown|txt)$/i;
+
+// Markdown files have no ids, so one is derived from the path to keep a
+// second import of the same folder from adding every entry again.
+const MARKDOWN_NAMESPACE = "3b5e8b0e-3a5c-4c8e-9f1a-6d2c1e7b9a40";
+
+function getFileDate(path: string): Date | null {
+  const match = FILE_DATE.exec(path);
+  if (!match) return null;
+  const [, year, month, day, hours = "12", minutes = "00"] = match;
+  const date = new Date(+year, +month - 1, +day, +hours, +minutes);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+export async function parseMarkdownFiles(
+  files: File[],
+): Promise<ExternalSource> {
+  const entries: ExternalEntry[] = [];
+  const skipped: string[] = [];
+
+  for (const file of files) {
+    const path = file.webkitRelativePath || file.name;
+    if (!MARKDOWN_FILE.test(path)) continue;
+    const createdAt = getFileDate(path);
+    if (!createdAt) {
+      skipped.push(path);
+      continue;
+    }
+    const text = (await file.text())
+      .replace(/\r\n/g, "\n")
+      .replace(FRONT_MATTER, "")
+      .trim();
+    if (text === "") continue;
+    entries.push({
+      id: uuidv5(path, MARKDOWN_NAMESPACE),
+      createdAt,
+      userContent: text,
+      assistantContent: "",
+    });
+  }
+
+  return { type: "markdown", entries, skipped };
+}
+
+// Adds the entries as messages of the journal and queues them to be
+// summarized the way the chat would have over time. Entries imported before
+// are left alone, and ones another journal has are copied under new ids, as
+// in journal imports. Resolves to the number of messages added and skipped.
+//
+// Summaries cover the journal in date order, so entries from before the end
+// of its last summary are refused: they would be folded into spans that
+// overlap the existing ones. Such entries go into a new journal.
+export async function importExternalEntries(
+  entries: ExternalEntry[],
+  journalId: string,
+): Promise<{ addedCount: number; skippedCount: number }> {
+  const foreignIds = new Set(
+    await findForeignIds(
+      "message",
+      entries.map((e) => e.id),
+      journalId,
+    ),
+  );
+  const existingIds = new Set(
+    (await getJournalMessages(journalId)).map((m) => m.id),
+  );
+  const messages: DBMessage[] = entries
+    .map((entry) =>
+      foreignIds.has(entry.id)
+        ? { ...entry, id: copyId(entry.id, journalId) }
+        : entry,
+    )
+    .filter((entry) => !existingIds.has(entry.id))
+    .map((entry) => ({
+      ...entry,
+      journalId,
+      tokensCount: 0,
+      summaryId: "NULL",
+    }));
+
+  const summarizedUntil = (await getJournalSummaries(journalId))
+    .map((summary) => summary.dateTo.getTime())
+    .reduce((a, b) => Math.max(a, b), -Infinity);
+  if (messages.some((m) => m.createdAt.getTime() <= summarizedUntil)) {
+    throw new Error(
+      getStrings().import.beforeSummaries(
+        dateTimeFormat.format(new Date(summarizedUntil)),
+      ),
+    );
+  }
+
+  for (const message of messages) {
+    message.tokensCount = countMessageTokens(message);
+  }
+
+  await updateData([], messages);
+  scheduleCompression(journalId);
+  return {
+    addedCount: messages.length,
+    skippedCount: entries.length - messages.length,
+  };
+}
@@ -0,0 +1,52 @@
+import { getLocale, Locale } from "./i18n.ts";
+
+// Formats dates in the language of the interface, whichever is chosen at the
+// time of the call.
+function createFormat(options: Intl.DateTimeFormatOptions) {
+  const formats = new Map<Locale, Intl.DateTimeFormat>();
+  return {
+    format(date: Date): string {
+      const locale = getLocale();
+      let format = formats.get(locale);
+      if (!format) {
+        format = new Intl.DateTimeFormat(locale, options);
+        formats.set(locale, format);
+      }
+      return format.format(date);
+    },
+  };
+}
+
+export const dateTimeFormat = createFormat({
+  year: "numeric",
+  month: "long",
+  day: "numeric",
+  hour: "2-digit",
+  minute: "2-digit",
+});
+
+export const dateFormat = createFormat({
+  weekday: "long",
+  year: "numeric",
+  month: "long",
+  day: "numeric",
+});
+
+export const dayFormat = createFormat({
+  month: "long",
+  day: "numeric",
+});
+
+export const monthFormat = createFormat({
+  year: "numeric",
+  month: "long",
+});
+
+export const timeFormat = createFormat({
+  hour: "2-digit",
+  minute: "2-digit",
+});
+
+export const weekdayFormat = createFormat({
+  weekday: "short",
+});
@@ -0,0 +1,68 @@
+import { useSyncExternalStore } from "react";
+import { enUS, ru as ruDateLocale } from "date-fns/locale";
+import { en, Strings } from "./strings.en.ts";
+import { ru } from "./strings.ru.ts";
+
+export type Locale = "en" | "ru";
+
+export const LOCALES: Locale[] = ["en", "ru"];
+
+// Each language by its own name.
+export const LOCALE_NAMES: Record<Locale, string> = {
+  en: "English",
+  ru: "Русский",
+};
+
+const CATALOGS: Record<Locale, Strings> = { en, ru };
+
+const DATE_FNS_LOCALES = { en: enUS, ru: ruDateLocale };
+
+const LOCALE_STORAGE_KEY = "LOCALE";
+
+function detectLocale(): Locale {
+  return navigator.language.toLowerCase().startsWith("ru") ? "ru" : "en";
+}
+
+function readLocale(): Locale {
+  const stored = localStorage.getItem(LOCALE_STORAGE_KEY);
+  return LOCALES.find((l) => l === stored) ?? detectLocale();
+}
+
+let locale = readLocale();
+document.documentElement.lang = locale;
+const listeners = new Set<() => void>();
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function getLocale(): Locale {
+  return locale;
+}
+
+export function setLocale(newLocale: Locale) {
+  localStorage.setItem(LOCALE_STORAGE_KEY, newLocale);
+  locale = newLocale;
+  document.documentElement.lang = newLocale;
+  listeners.forEach((listener) => listener());
+}
+
+export function useLocale(): Locale {
+  return useSyncExternalStore(subscribe, () => locale);
+}
+
+// For code outside of components, like validation and prompts.
+export function getStrings(): Strings {
+  return CATALOGS[locale];
+}
+
+export function useStrings(): Strings {
+  return CATALOGS[useLocale()];
+}
+
+export function getDateFnsLocale() {
+  return DATE_FNS_LOCALES[locale];
+}
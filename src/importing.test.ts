@@ -0,0 +1,266 @@
+import { describe, expect, it } from "vitest";
+import {
+  getImportPreview,
+  importJournal,
+  isDestructiveImport,
+  validateImportedData,
+} from "./importing.ts";
+import {
+  EXPORT_VERSION,
+  getAttachments,
+  getJournalMessages,
+  getJournalSummaries,
+  ImportedData,
+} from "./db.ts";
+import { getStrings } from "./i18n.ts";
+
+const strings = getStrings().importErrors;
+
+// A summary of two messages, the second one with a photo.
+function createFile(): ImportedData {
+  return {
+    version: EXPORT_VERSION,
+    data: {
+      summary: [
+        {
+          id: "s1",
+          date_from: "2024-01-01T10:00:00.000Z",
+          date_to: "2024-01-02T10:00:00.000Z",
+          content: "Two quiet days.",
+          level: 1,
+          tokens_count: 5,
+          parent_id: null,
+          stale: false,
+          tags: [],
+        },
+      ],
+      message: [
+        {
+          id: "m1",
+          created_at: "2024-01-01T10:00:00.000Z",
+          user_content: "Stayed home.",
+          assistant_content: "Sounds restful.",
+          tokens_count: 8,
+          summary_id: "s1",
+          interrupted: false,
+          pending: false,
+          mood: null,
+          tags: [],
+          attachment_ids: [],
+        },
+        {
+          id: "m2",
+          created_at: "2024-01-02T10:00:00.000Z",
+          user_content: "Went for a walk.",
+          assistant_content: "Nice.",
+          tokens_count: 8,
+          summary_id: "s1",
+          interrupted: false,
+          pending: false,
+          mood: null,
+          tags: ["walks"],
+          attachment_ids: ["a1"],
+        },
+      ],
+      profile: null,
+      attachment: [
+        {
+          id: "a1",
+          message_id: "m2",
+          name: "park.jpg",
+          type: "image/jpeg",
+          created_at: "2024-01-02T10:00:00.000Z",
+          data: "AAEC",
+        },
+      ],
+    },
+  };
+}
+
+function getErrors(file: unknown): string[] {
+  try {
+    validateImportedData(file);
+  } catch (e) {
+    return (e as Error).message.split("\n");
+  }
+  return [];
+}
+
+describe("validateImportedData", () => {
+  it("accepts a current export", () => {
+    expect(validateImportedData(createFile())).toEqual(createFile());
+  });
+
+  it("upgrades files of the first version", () => {
+    const { message, summary } = createFile().data;
+    const file = {
+      version: "1",
+      data: {
+        message: message.map((m) => ({
+          id: m.id,
+          created_at: m.created_at,
+          user_content: m.user_content,
+          assistant_content: m.assistant_content,
+          tokens_count: m.tokens_count,
+          summary_id: m.summary_id,
+        })),
+        summary: summary.map((s) => ({
+          id: s.id,
+          date_from: s.date_from,
+          date_to: s.date_to,
+          content: s.content,
+          level: s.level,
+          tokens_count: s.tokens_count,
+          parent_id: s.parent_id,
+        })),
+      },
+    };
+
+    const upgraded = validateImportedData(file);
+    expect(upgraded.version).toBe(EXPORT_VERSION);
+    expect(upgraded.data.profile).toBeNull();
+    expect(upgraded.data.attachment).toEqual([]);
+    expect(upgraded.data.message[0]).toMatchObject({
+      interrupted: false,
+      pending: false,
+      mood: null,
+      tags: [],
+      attachment_ids: [],
+    });
+    expect(upgraded.data.summary[0]).toMatchObject({ stale: false, tags: [] });
+  });
+
+  it("refuses what is not an export", () => {
+    expect(getErrors([])).toEqual([strings.notExport]);
+    expect(getErrors({ data: {} })).toEqual([strings.noVersion]);
+    expect(getErrors({ version: "99", data: {} })).toEqual([
+      strings.unsupportedVersion("99"),
+    ]);
+  });
+
+  it("names every malformed field by its path", () => {
+    const file = createFile();
+    const broken = {
+      ...file,
+      data: {
+        ...file.data,
+        message: [
+          { ...file.data.message[0], created_at: "yesterday", pending: 1 },
+          file.data.message[1],
+        ],
+      },
+    };
+    expect(getErrors(broken)).toEqual([
+      strings.notDate("message[0].created_at"),
+      strings.notBoolean("message[0].pending"),
+    ]);
+  });
+
+  it("checks the links between entries", () => {
+    const file = createFile();
+    const broken: ImportedData = {
+      ...file,
+      data: {
+        ...file.data,
+        message: [
+          { ...file.data.message[0], summary_id: "missing" },
+          { ...file.data.message[1], id: "m1" },
+        ],
+      },
+    };
+    expect(getErrors(broken)).toEqual([
+      strings.missingSummary("message[0].summary_id"),
+      strings.duplicateId("message[1].id", "m1"),
+      strings.missingMessage("attachment[0].message_id"),
+    ]);
+  });
+
+  it("reports only the first errors of a file", () => {
+    const file = createFile();
+    const message = Array.from({ length: 30 }, (_, i) => ({
+      ...file.data.message[0],
+      id: `m${i}`,
+      created_at: "never",
+    }));
+    const errors = getErrors({ ...file, data: { ...file.data, message } });
+    expect(errors).toHaveLength(21);
+    expect(errors[errors.length - 1]).toBe(strings.more(10));
+  });
+});
+
+describe("importJournal", () => {
+  it("merges a file imported again without changes", async () => {
+    const file = createFile();
+    await importJournal(file, "merge", "same");
+    const preview = await getImportPreview(file, "same");
+
+    expect(preview).toMatchObject({
+      messageCount: 2,
+      summaryCount: 1,
+      existingCount: 3,
+      conflictCount: 0,
+      duplicateCount: 3,
+      foreignCount: 0,
+    });
+    expect(isDestructiveImport(preview, "merge")).toBe(false);
+    expect(isDestructiveImport(preview, "replace")).toBe(true);
+  });
+
+  it("copies entries another journal has instead of taking them over", async () => {
+    const file = createFile();
+    await importJournal(file, "merge", "first");
+    const preview = await getImportPreview(file, "second");
+    expect(preview.foreignCount).toBe(4);
+    expect(isDestructiveImport(preview, "merge")).toBe(false);
+
+    await importJournal(file, "merge", "second");
+    await importJournal(file, "merge", "second");
+
+    const first = await getJournalMessages("first");
+    expect(first.map((m) => m.id).sort()).toEqual(["m1", "m2"]);
+
+    const messages = await getJournalMessages("second");
+    const [summary] = await getJournalSummaries("second");
+    expect(messages).toHaveLength(2);
+    expect(summary.id).not.toBe("s1");
+    for (const message of messages) {
+      expect(["m1", "m2"]).not.toContain(message.id);
+      expect(message.summaryId).toBe(summary.id);
+    }
+
+    const withPhoto = messages.find(
+      (m) => m.userContent === "Went for a walk.",
+    );
+    const [attachment] = await getAttachments(withPhoto!);
+    expect(attachment.id).not.toBe("a1");
+    expect(attachment.messageId).toBe(withPhoto!.id);
+    expect(attachment.journalId).toBe("second");
+  });
+
+  it("deletes the attachments a merged message no longer lists", async () => {
+    const file = createFile();
+    await importJournal(file, "merge", "photos");
+    const [before] = (await getJournalMessages("photos")).filter(
+      (m) => m.id === "m2",
+    );
+    expect(await getAttachments(before)).toHaveLength(1);
+
+    const withoutPhoto: ImportedData = {
+      ...file,
+      data: {
+        ...file.data,
+        message: file.data.message.map((m) => ({ ...m, attachment_ids: [] })),
+        attachment: [],
+      },
+    };
+    await importJournal(withoutPhoto, "merge", "photos");
+    expect(await getAttachments(before)).toEqual([]);
+  });
+
+  it("counts tokens of imported entries anew", async () => {
+    await importJournal(createFile(), "replace", "tokens");
+    const messages = await getJournalMessages("tokens");
+    expect(messages.map((m) => m.tokensCount)).not.toContain(8);
+    expect(messages.every((m) => m.tokensCount > 0)).toBe(true);
+  });
+});
@@ -0,0 +1,508 @@
+import {
+  convertImportedData,
+  EXPORT_VERSION,
+  exportDataFromIndexedDB,
+  getBackups,
+  getJournalMessages,
+  getJournalSummaries,
+  getProfile,
+  ImportedData,
+  importDataToIndexedDB,
+  ImportMode,
+  isSameMessage,
+  isSameSummary,
+  remapForeignIds,
+  saveBackup,
+} from "./db.ts";
+import { countMessageTokens, countSummaryTokens } from "./ai.ts";
+import { getStrings } from "./i18n.ts";
+
+// Past this many problems the file is clearly not a journal export, and a
+// longer list would only bury the first, most useful errors.
+const MAX_REPORTED_ERRORS = 20;
+
+type Json = Record<string, unknown>;
+
+function isObject(value: unknown): value is Json {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// Adds a field with a default value to every message or summary of the
+// file.
+function addField(
+  json: Json,
+  version: string,
+  store: "message" | "summary",
+  field: Json,
+): Json {
+  const data = isObject(json.data) ? json.data : {};
+  const entries = data[store];
+  return {
+    ...json,
+    version,
+    data: {
+      ...data,
+      [store]: Array.isArray(entries)
+        ? entries.map((e) => (isObject(e) ? { ...field, ...e } : e))
+        : entries,
+    },
+  };
+}
+
+// Each upgrade turns a file of the version it's keyed by into the next one.
+// They run before validation, so they must cope with malformed input and
+// leave it to the validation to report.
+const FILE_UPGRADES: Record<string, (json: Json) => Json> = {
+  // 2: "interrupted" is always present
+  "1": (json) => addField(json, "2", "message", { interrupted: false }),
+  // 3: "pending" marks messages still waiting for a reply
+  "2": (json) => addField(json, "3", "message", { pending: false }),
+  // 4: "stale" marks summaries that are to be written anew
+  "3": (json) => addField(json, "4", "summary", { stale: false }),
+  // 5: "mood" holds what was tracked of the user's mood, if anything
+  "4": (json) => addField(json, "5", "message", { mood: null }),
+  // 6: "tags" of messages and summaries
+  "5": (json) =>
+    addField(addField(json, "6", "message", { tags: [] }), "6", "summary", {
+      tags: [],
+    }),
+  // 7: "profile" facts, null when the file leaves the profile as it is
+  "6": (json) => ({
+    ...json,
+    version: "7",
+    data: { profile: null, ...(isObject(json.data) ? json.data : {}) },
+  }),
+  // 8: photos and files attached to messages
+  "7": (json) => {
+    const upgraded = addField(json, "8", "message", { attachment_ids: [] });
+    return {
+      ...upgraded,
+      data: { attachment: [], ...(upgraded.data as Json) },
+    };
+  },
+};
+
+function upgradeImportedData(json: unknown): unknown {
+  let upgraded = json;
+  while (
+    isObject(upgraded) &&
+    typeof upgraded.version === "string" &&
+    upgraded.version in FILE_UPGRADES
+  ) {
+    upgraded = FILE_UPGRADES[upgraded.version](upgraded);
+  }
+  return upgraded;
+}
+
+function isDateString(value: unknown): boolean {
+  return typeof value === "string" && !Number.isNaN(Date.parse(value));
+}
+
+function isCount(value: unknown): boolean {
+  return Number.isInteger(value) && (value as number) >= 0;
+}
+
+function isScore(value: unknown): boolean {
+  return (
+    Number.isInteger(value) && (value as number) >= 1 && (value as number) <= 10
+  );
+}
+
+function validateMood(mood: unknown, path: string): string[] {
+  const strings = getStrings().importErrors;
+  if (mood === null) return [];
+  if (!isObject(mood)) return [strings.notObjectOrNull(path)];
+  const errors: string[] = [];
+  if (!isScore(mood.score)) {
+    errors.push(strings.notScore(`${path}.score`));
+  }
+  if (
+    !Array.isArray(mood.emotions) ||
+    !mood.emotions.every((e) => typeof e === "string")
+  ) {
+    errors.push(strings.notStrings(`${path}.emotions`));
+  }
+  if (mood.energy !== null && !isScore(mood.energy)) {
+    errors.push(strings.notScoreOrNull(`${path}.energy`));
+  }
+  if (
+    mood.sleep_hours !== null &&
+    !(typeof mood.sleep_hours === "number" && mood.sleep_hours >= 0)
+  ) {
+    errors.push(strings.notHoursOrNull(`${path}.sleep_hours`));
+  }
+  if (mood.source !== "auto" && mood.source !== "manual") {
+    errors.push(strings.notSource(`${path}.source`));
+  }
+  return errors;
+}
+
+function isTagList(value: unknown): boolean {
+  return (
+    Array.isArray(value) &&
+    value.every((tag) => typeof tag === "string" && tag !== "")
+  );
+}
+
+function isIdList(value: unknown): boolean {
+  return (
+    Array.isArray(value) &&
+    value.every((id) => typeof id === "string" && id !== "")
+  );
+}
+
+function isNullableId(value: unknown): boolean {
+  return value === null || (typeof value === "string" && value !== "");
+}
+
+function validateMessage(message: unknown, path: string): string[] {
+  const strings = getStrings().importErrors;
+  if (!isObject(message)) return [strings.notObject(path)];
+  const errors: string[] = [];
+  if (typeof message.id !== "string" || message.id === "") {
+    errors.push(strings.notNonEmptyString(`${path}.id`));
+  }
+  if (!isDateString(message.created_at)) {
+    errors.push(strings.notDate(`${path}.created_at`));
+  }
+  if (typeof message.user_content !== "string") {
+    errors.push(strings.notString(`${path}.user_content`));
+  }
+  if (typeof message.assistant_content !== "string") {
+    errors.push(strings.notString(`${path}.assistant_content`));
+  }
+  if (!isCount(message.tokens_count)) {
+    errors.push(strings.notCount(`${path}.tokens_count`));
+  }
+  if (!isNullableId(message.summary_id)) {
+    errors.push(strings.notSummaryIdOrNull(`${path}.summary_id`));
+  }
+  if (typeof message.interrupted !== "boolean") {
+    errors.push(strings.notBoolean(`${path}.interrupted`));
+  }
+  if (typeof message.pending !== "boolean") {
+    errors.push(strings.notBoolean(`${path}.pending`));
+  }
+  errors.push(...validateMood(message.mood, `${path}.mood`));
+  if (!isTagList(message.tags)) {
+    errors.push(strings.notTags(`${path}.tags`));
+  }
+  if (!isIdList(message.attachment_ids)) {
+    errors.push(strings.notAttachmentIds(`${path}.attachment_ids`));
+  }
+  return errors;
+}
+
+function validateSummary(summary: unknown, path: string): string[] {
+  const strings = getStrings().importErrors;
+  if (!isObject(summary)) return [strings.notObject(path)];
+  const errors: string[] = [];
+  if (typeof summary.id !== "string" || summary.id === "") {
+    errors.push(strings.notNonEmptyString(`${path}.id`));
+  }
+  if (!isDateString(summary.date_from)) {
+    errors.push(strings.notDate(`${path}.date_from`));
+  }
+  if (!isDateString(summary.date_to)) {
+    errors.push(strings.notDate(`${path}.date_to`));
+  }
+  if (typeof summary.content !== "string") {
+    errors.push(strings.notString(`${path}.content`));
+  }
+  if (!isCount(summary.level)) {
+    errors.push(strings.notCount(`${path}.level`));
+  }
+  if (!isCount(summary.tokens_count)) {
+    errors.push(strings.notCount(`${path}.tokens_count`));
+  }
+  if (!isNullableId(summary.parent_id)) {
+    errors.push(strings.notSummaryIdOrNull(`${path}.parent_id`));
+  }
+  if (typeof summary.stale !== "boolean") {
+    errors.push(strings.notBoolean(`${path}.stale`));
+  }
+  if (!isTagList(summary.tags)) {
+    errors.push(strings.notTags(`${path}.tags`));
+  }
+  return errors;
+}
+
+function validateAttachment(attachment: unknown, path: string): string[] {
+  const strings = getStrings().importErrors;
+  if (!isObject(attachment)) return [strings.notObject(path)];
+  const errors: string[] = [];
+  if (typeof attachment.id !== "string" || attachment.id === "") {
+    errors.push(strings.notNonEmptyString(`${path}.id`));
+  }
+  if (typeof attachment.message_id !== "string") {
+    errors.push(strings.notMessageId(`${path}.message_id`));
+  }
+  if (typeof attachment.name !== "string") {
+    errors.push(strings.notString(`${path}.name`));
+  }
+  if (typeof attachment.type !== "string") {
+    errors.push(strings.notString(`${path}.type`));
+  }
+  if (!isDateString(attachment.created_at)) {
+    errors.push(strings.notDate(`${path}.created_at`));
+  }
+  if (
+    typeof attachment.data !== "string" ||
+    !/^[A-Za-z0-9+/]*={0,2}$/.test(attachment.data)
+  ) {
+    errors.push(strings.notBase64(`${path}.data`));
+  }
+  return errors;
+}
+
+function validateProfileFact(fact: unknown, path: string): string[] {
+  const strings = getStrings().importErrors;
+  if (!isObject(fact)) return [strings.notObject(path)];
+  const errors: string[] = [];
+  if (typeof fact.id !== "string" || fact.id === "") {
+    errors.push(strings.notNonEmptyString(`${path}.id`));
+  }
+  if (typeof fact.text !== "string" || fact.text.trim() === "") {
+    errors.push(strings.notNonEmptyString(`${path}.text`));
+  }
+  if (!isDateString(fact.updated_at)) {
+    errors.push(strings.notDate(`${path}.updated_at`));
+  }
+  if (fact.source !== "auto" && fact.source !== "manual") {
+    errors.push(strings.notSource(`${path}.source`));
+  }
+  return errors;
+}
+
+// Checks the links between entries once every entry is known to be well
+// formed.
+function validateReferences(data: ImportedData): string[] {
+  const strings = getStrings().importErrors;
+  const errors: string[] = [];
+  const ids = new Set<string>();
+  const summaryIds = new Set(data.data.summary.map((s) => s.id));
+
+  const checkId = (id: string, path: string) => {
+    if (ids.has(id)) errors.push(strings.duplicateId(`${path}.id`, id));
+    ids.add(id);
+  };
+
+  data.data.summary.forEach((summary, i) => {
+    const path = `summary[${i}]`;
+    checkId(summary.id, path);
+    if (summary.parent_id !== null && !summaryIds.has(summary.parent_id)) {
+      errors.push(strings.missingSummary(`${path}.parent_id`));
+    }
+  });
+
+  const attachmentIds = new Set(data.data.attachment.map((a) => a.id));
+  data.data.message.forEach((message, i) => {
+    const path = `message[${i}]`;
+    checkId(message.id, path);
+    if (message.summary_id !== null && !summaryIds.has(message.summary_id)) {
+      errors.push(strings.missingSummary(`${path}.summary_id`));
+    }
+    if (!message.attachment_ids.every((id) => attachmentIds.has(id))) {
+      errors.push(strings.missingAttachment(`${path}.attachment_ids`));
+    }
+  });
+
+  const messageIds = new Set(data.data.message.map((m) => m.id));
+  data.data.attachment.forEach((attachment, i) => {
+    const path = `attachment[${i}]`;
+    checkId(attachment.id, path);
+    if (!messageIds.has(attachment.message_id)) {
+      errors.push(strings.missingMessage(`${path}.message_id`));
+    }
+  });
+
+  const factIds = new Set<string>();
+  data.data.profile?.forEach((fact, i) => {
+    if (factIds.has(fact.id)) {
+      errors.push(strings.duplicateId(`profile[${i}].id`, fact.id));
+    }
+    factIds.add(fact.id);
+  });
+
+  return errors;
+}
+
+function collectErrors(json: unknown): string[] {
+  const strings = getStrings().importErrors;
+  if (!isObject(json)) return [strings.notExport];
+  if (typeof json.version !== "string") return [strings.noVersion];
+  if (json.version !== EXPORT_VERSION) {
+    return [strings.unsupportedVersion(json.version)];
+  }
+  if (!isObject(json.data)) return [strings.notObject("data")];
+
+  const { message, summary, profile, attachment } = json.data;
+  if (!Array.isArray(message)) return [strings.notArray("data.message")];
+  if (!Array.isArray(summary)) return [strings.notArray("data.summary")];
+  if (!Array.isArray(attachment)) {
+    return [strings.notArray("data.attachment")];
+  }
+  if (profile !== null && !Array.isArray(profile)) {
+    return [strings.notArrayOrNull("data.profile")];
+  }
+
+  const errors = [
+    ...summary.flatMap((s, i) => validateSummary(s, `summary[${i}]`)),
+    ...message.flatMap((m, i) => validateMessage(m, `message[${i}]`)),
+    ...attachment.flatMap((a, i) => validateAttachment(a, `attachment[${i}]`)),
+    ...(profile ?? []).flatMap((f, i) =>
+      validateProfileFact(f, `profile[${i}]`),
+    ),
+  ];
+  if (errors.length > 0) return errors;
+  return validateReferences(json as unknown as ImportedData);
+}
+
+// Upgrades the file to the current export version and checks it.
+export function validateImportedData(file: unknown): ImportedData {
+  const json = upgradeImportedData(file);
+  const errors = collectErrors(json);
+  if (errors.length > MAX_REPORTED_ERRORS) {
+    const more = errors.length - MAX_REPORTED_ERRORS;
+    errors.splice(
+      MAX_REPORTED_ERRORS,
+      more,
+      getStrings().importErrors.more(more),
+    );
+  }
+  if (errors.length > 0) throw new Error(errors.join("\n"));
+  return json as ImportedData;
+}
+
+export interface ImportPreview {
+  messageCount: number;
+  summaryCount: number;
+  dateFrom: Date | null;
+  dateTo: Date | null;
+  // Entries of the journal that "replace" deletes.
+  existingCount: number;
+  // Profile facts that "replace" drops, when the file has a profile of its
+  // own.
+  replacedFactCount: number;
+  // Entries with an id already in the journal but different content, which
+  // "merge" overwrites.
+  conflictCount: number;
+  // Entries already in the journal as they are.
+  duplicateCount: number;
+  // Entries and attachments with the id of one in another journal, which
+  // are imported as copies under new ids; nothing of the other journal is
+  // touched.
+  foreignCount: number;
+}
+
+// Math.min(...times) overflows the stack on a large journal.
+const min = (a: number, b: number) => Math.min(a, b);
+const max = (a: number, b: number) => Math.max(a, b);
+
+export async function getImportPreview(
+  data: ImportedData,
+  journalId: string,
+): Promise<ImportPreview> {
+  const { data: remapped, foreignCount } = await remapForeignIds(
+    data,
+    journalId,
+  );
+  const imported = convertImportedData(remapped, journalId);
+  const messages = new Map(
+    (await getJournalMessages(journalId)).map((m) => [m.id, m]),
+  );
+  const summaries = new Map(
+    (await getJournalSummaries(journalId)).map((s) => [s.id, s]),
+  );
+
+  let conflictCount = 0;
+  let duplicateCount = 0;
+  for (const message of imported.message) {
+    const existing = messages.get(message.id);
+    if (!existing) continue;
+    if (isSameMessage(existing, message)) duplicateCount++;
+    else conflictCount++;
+  }
+  for (const summary of imported.summary) {
+    const existing = summaries.get(summary.id);
+    if (!existing) continue;
+    if (isSameSummary(existing, summary)) duplicateCount++;
+    else conflictCount++;
+  }
+
+  const times = [
+    ...imported.message.map((m) => m.createdAt.getTime()),
+    ...imported.summary.flatMap((s) => [
+      s.dateFrom.getTime(),
+      s.dateTo.getTime(),
+    ]),
+  ];
+
+  return {
+    messageCount: imported.message.length,
+    summaryCount: imported.summary.length,
+    dateFrom: times.length > 0 ? new Date(times.reduce(min)) : null,
+    dateTo: times.length > 0 ? new Date(times.reduce(max)) : null,
+    existingCount: messages.size + summaries.size,
+    replacedFactCount: data.data.profile
+      ? (await getProfile(journalId)).facts.length
+      : 0,
+    conflictCount,
+    duplicateCount,
+    foreignCount,
+  };
+}
+
+export function isDestructiveImport(
+  preview: ImportPreview,
+  mode: ImportMode,
+): boolean {
+  if (mode === "replace") {
+    return preview.existingCount > 0 || preview.replacedFactCount > 0;
+  }
+  return preview.conflictCount > 0;
+}
+
+// The counts in the file may come from the encoding of another model.
+function withTokenCounts(data: ImportedData): ImportedData {
+  return {
+    ...data,
+    data: {
+      ...data.data,
+      message: data.data.message.map((message) => ({
+        ...message,
+        tokens_count: countMessageTokens({
+          userContent: message.user_content,
+          assistantContent: message.assistant_content,
+        }),
+      })),
+      summary: data.data.summary.map((summary) => ({
+        ...summary,
+        tokens_count: countSummaryTokens(summary),
+      })),
+    },
+  };
+}
+
+// Anything the import would delete or overwrite is saved in a backup first.
+export async function importJournal(
+  data: ImportedData,
+  mode: ImportMode,
+  journalId: string,
+): Promise<void> {
+  const preview = await getImportPreview(data, journalId);
+  if (isDestructiveImport(preview, mode)) {
+    await saveBackup(journalId, await exportDataFromIndexedDB(journalId));
+  }
+  await importDataToIndexedDB(withTokenCounts(data), mode, journalId);
+}
+
+export async function restoreBackup(id: string): Promise<void> {
+  const backup = (await getBackups()).find((b) => b.id === id);
+  if (!backup) throw new Error(getStrings().backups.notFound);
+  await importJournal(
+    validateImportedData(backup.data),
+    "replace",
+    backup.journalId,
+  );
+}
@@ -0,0 +1,293 @@
+import { format } from "date-fns";
+import { strToU8, zipSync } from "fflate";
+import {
+  DBMessage,
+  DBSummary,
+  getJournal,
+  getJournalMessages,
+  getJournalSummaries,
+} from "./db.ts";
+import { dateFormat, monthFormat, timeFormat } from "./format.ts";
+import { getLocale, getStrings } from "./i18n.ts";
+
+export type DocumentFormat = "markdown" | "markdown-zip" | "text" | "html";
+
+export interface DocumentOptions {
+  format: DocumentFormat;
+  includeAssistant: boolean;
+  includeSummaries: boolean;
+  dateFrom: Date | null;
+  dateTo: Date | null;
+}
+
+// The export is built as a list of blocks first, and each format only decides
+// how to write them out.
+type Block =
+  | { type: "heading"; level: number; text: string }
+  | { type: "paragraph"; text: string }
+  | { type: "quote"; text: string };
+
+interface DocumentFile {
+  name: string;
+  blocks: Block[];
+}
+
+function isInRange(
+  from: Date,
+  to: Date,
+  { dateFrom, dateTo }: DocumentOptions,
+): boolean {
+  if (dateFrom && to < dateFrom) return false;
+  if (dateTo && from > dateTo) return false;
+  return true;
+}
+
+function heading(level: number, text: string): Block {
+  return { type: "heading", level: Math.min(level, 6), text };
+}
+
+// Entries of one month, with a heading for every day.
+function getMonthBlocks(
+  messages: DBMessage[],
+  options: DocumentOptions,
+  level: number,
+): Block[] {
+  const blocks: Block[] = [
+    heading(level, monthFormat.format(messages[0].createdAt)),
+  ];
+  let day = "";
+
+  for (const message of messages) {
+    const messageDay = format(message.createdAt, "yyyy-MM-dd");
+    if (messageDay !== day) {
+      day = messageDay;
+      blocks.push(heading(level + 1, dateFormat.format(message.createdAt)));
+    }
+    blocks.push(heading(level + 2, timeFormat.format(message.createdAt)));
+    blocks.push({ type: "paragraph", text: message.userContent });
+    if (options.includeAssistant && message.assistantContent !== "") {
+      blocks.push({ type: "quote", text: message.assistantContent });
+    }
+  }
+
+  return blocks;
+}
+
+// The summaries as they were folded: every one is followed by the ones it was
+// made from, a level deeper.
+function getSummaryBlocks(summaries: DBSummary[], level: number): Block[] {
+  const ids = new Set(summaries.map((s) => s.id));
+  const children = new Map<string, DBSummary[]>();
+  const roots: DBSummary[] = [];
+
+  for (const summary of summaries) {
+    if (ids.has(summary.parentId)) {
+      const siblings = children.get(summary.parentId) ?? [];
+      siblings.push(summary);
+      children.set(summary.parentId, siblings);
+    } else {
+      roots.push(summary);
+    }
+  }
+
+  const blocks: Block[] = [];
+  const visit = (summary: DBSummary, depth: number) => {
+    const range = `${dateFormat.format(summary.dateFrom)} — ${dateFormat.format(summary.dateTo)}`;
+    blocks.push(heading(level + depth, range));
+    blocks.push({ type: "paragraph", text: summary.content });
+    for (const child of children.get(summary.id) ?? []) {
+      visit(child, depth + 1);
+    }
+  };
+
+  const byDate = (a: DBSummary, b: DBSummary) =>
+    a.dateFrom.valueOf() - b.dateFrom.valueOf();
+  for (const list of children.values()) list.sort(byDate);
+  for (const root of roots.sort(byDate)) visit(root, 0);
+
+  return blocks;
+}
+
+function groupByMonth(messages: DBMessage[]): Map<string, DBMessage[]> {
+  const months = new Map<string, DBMessage[]>();
+  for (const message of messages) {
+    const month = format(message.createdAt, "yyyy-MM");
+    const list = months.get(month) ?? [];
+    list.push(message);
+    months.set(month, list);
+  }
+  return months;
+}
+
+async function buildFiles(
+  journalId: string,
+  options: DocumentOptions,
+): Promise<{ title: string; files: DocumentFile[] }> {
+  const title =
+    (await getJournal(journalId))?.name ?? getStrings().export.journal;
+  const messages = (await getJournalMessages(journalId))
+    .filter((m) => isInRange(m.createdAt, m.createdAt, options))
+    .sort((a, b) => a.createdAt.valueOf() - b.createdAt.valueOf());
+  const summaries = options.includeSummaries
+    ? (await getJournalSummaries(journalId)).filter((s) =>
+        isInRange(s.dateFrom, s.dateTo, options),
+      )
+    : [];
+  const months = groupByMonth(messages);
+
+  if (options.format === "markdown-zip") {
+    const files: DocumentFile[] = [...months].map(([month, list]) => ({
+      name: `${month}.md`,
+      blocks: getMonthBlocks(list, options, 1),
+    }));
+    if (summaries.length > 0) {
+      files.push({
+        name: "summaries.md",
+        blocks: [
+          heading(1, getStrings().export.summaries),
+          ...getSummaryBlocks(summaries, 2),
+        ],
+      });
+    }
+    return { title, files };
+  }
+
+  const blocks: Block[] = [heading(1, title)];
+  for (const list of months.values()) {
+    blocks.push(...getMonthBlocks(list, options, 2));
+  }
+  if (summaries.length > 0) {
+    blocks.push(
+      heading(2, getStrings().export.summaries),
+      ...getSummaryBlocks(summaries, 3),
+    );
+  }
+  return { title, files: [{ name: title, blocks }] };
+}
+
+// Entry text is written as it is, except for what Markdown reads at the start
+// of a line: headings, quotes, lists, fences and rules would break up the
+// structure of the export, so their first character is escaped.
+function escapeMarkdownLine(line: string): string {
+  return line
+    .replace(/^(\s*)([#>+*=|~`_-])/, "$1\\$2")
+    .replace(/^(\s*\d+)([.)])/, "$1\\$2");
+}
+
+function toMarkdown(blocks: Block[]): string {
+  const parts = blocks.map((block) => {
+    if (block.type === "heading") {
+      return `${"#".repeat(block.level)} ${block.text}`;
+    }
+    if (block.type === "quote") {
+      return block.text
+        .split("\n")
+        .map((line) => (line ? `> ${escapeMarkdownLine(line)}` : ">"))
+        .join("\n");
+    }
+    return block.text.split("\n").map(escapeMarkdownLine).join("\n");
+  });
+  return parts.join("\n\n") + "\n";
+}
+
+function toText(blocks: Block[]): string {
+  const parts = blocks.map((block) => {
+    if (block.type === "heading") {
+      if (block.level > 2) return block.text;
+      const underline = block.level === 1 ? "=" : "-";
+      return `${block.text}\n${underline.repeat(block.text.length)}`;
+    }
+    if (block.type === "quote") {
+      return block.text
+        .split("\n")
+        .map((line) => `    ${line}`)
+        .join("\n");
+    }
+    return block.text;
+  });
+  return parts.join("\n\n") + "\n";
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+const PRINT_STYLES = `
+body { font-family: Georgia, serif; max-width: 40em; margin: 2em auto; padding: 0 1em; line-height: 1.5; }
+p, blockquote { white-space: pre-wrap; }
+blockquote { margin-left: 0; padding-left: 1em; border-left: 3px solid #ccc; color: #555; }
+h2 { page-break-before: always; }
+h2:first-of-type { page-break-before: avoid; }
+h3, h4, h5, h6 { page-break-after: avoid; }
+`;
+
+// Opens the print dialog on load, so saving a PDF is one step away.
+function toHtml(title: string, blocks: Block[]): string {
+  const body = blocks
+    .map((block) => {
+      const text = escapeHtml(block.text);
+      if (block.type === "heading")
+        return `<h${block.level}>${text}</h${block.level}>`;
+      if (block.type === "quote") return `<blockquote>${text}</blockquote>`;
+      return `<p>${text}</p>`;
+    })
+    .join("\n");
+  return `<!doctype html>
+<html lang="${getLocale()}">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>${PRINT_STYLES}</style>
+</head>
+<body>
+${body}
+<script>addEventListener("load", () => print());</script>
+</body>
+</html>
+`;
+}
+
+export async function exportDocument(
+  journalId: string,
+  options: DocumentOptions,
+): Promise<{ blob: Blob; fileName: string }> {
+  const { title, files } = await buildFiles(journalId, options);
+
+  if (options.format === "markdown-zip") {
+    const zip = zipSync(
+      Object.fromEntries(
+        files.map((file) => [file.name, strToU8(toMarkdown(file.blocks))]),
+      ),
+    );
+    return {
+      blob: new Blob([zip], { type: "application/zip" }),
+      fileName: `${title}.zip`,
+    };
+  }
+
+  const [{ blocks }] = files;
+  if (options.format === "markdown") {
+    return {
+      blob: new Blob([toMarkdown(blocks)], {
+        type: "text/markdown;charset=utf-8",
+      }),
+      fileName: `${title}.md`,
+    };
+  }
+  if (options.format === "text") {
+    return {
+      blob: new Blob([toText(blocks)], { type: "text/plain;charset=utf-8" }),
+      fileName: `${title}.txt`,
+    };
+  }
+  return {
+    blob: new Blob([toHtml(title, blocks)], {
+      type: "text/html;charset=utf-8",
+    }),
+    fileName: `${title}.html`,
+  };
+}
@@ -0,0 +1,80 @@
+import { useQuery } from "@tanstack/react-query";
+import { useSyncExternalStore } from "react";
+import { v4 as uuidv4 } from "uuid";
+import {
+  DEFAULT_JOURNAL_ID,
+  deleteJournal,
+  getJournal,
+  getJournals,
+  Journal,
+  putJournal,
+} from "./db.ts";
+import { getSettings } from "./settings.ts";
+import { getStrings } from "./i18n.ts";
+
+const CURRENT_JOURNAL_STORAGE_KEY = "CURRENT_JOURNAL";
+
+let currentJournalId =
+  localStorage.getItem(CURRENT_JOURNAL_STORAGE_KEY) ?? DEFAULT_JOURNAL_ID;
+const listeners = new Set<() => void>();
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function getCurrentJournalId(): string {
+  return currentJournalId;
+}
+
+export function setCurrentJournalId(id: string) {
+  currentJournalId = id;
+  localStorage.setItem(CURRENT_JOURNAL_STORAGE_KEY, id);
+  listeners.forEach((listener) => listener());
+}
+
+export function useCurrentJournalId(): string {
+  return useSyncExternalStore(subscribe, getCurrentJournalId);
+}
+
+export function useJournals(): Journal[] {
+  const { data } = useQuery({
+    queryKey: ["journals"],
+    queryFn: getJournals,
+  });
+  return data ?? [];
+}
+
+export async function getSystemPrompt(journalId: string): Promise<string> {
+  const journal = await getJournal(journalId);
+  return journal?.systemPrompt || getSettings().chatSystemPrompt;
+}
+
+export async function createJournal(name: string): Promise<Journal> {
+  const journal: Journal = { id: uuidv4(), name, systemPrompt: null };
+  await putJournal(journal);
+  return journal;
+}
+
+export async function updateJournal(journal: Journal): Promise<void> {
+  if (journal.name.trim() === "")
+    throw new Error(getStrings().journals.emptyName);
+  await putJournal(journal);
+}
+
+export async function removeJournal(id: string): Promise<void> {
+  const journals = await getJournals();
+  const rest = journals.filter((j) => j.id !== id);
+  if (rest.length === 0) throw new Error(getStrings().journals.lastJournal);
+  await deleteJournal(id);
+  if (currentJournalId === id) setCurrentJournalId(rest[0].id);
+}
+
+// The stored choice may point to a journal deleted in another tab.
+export async function ensureCurrentJournal() {
+  const journals = await getJournals();
+  if (journals.some((j) => j.id === currentJournalId)) return;
+  if (journals.length > 0) setCurrentJournalId(journals[0].id);
+}
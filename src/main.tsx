@@ -3,16 +3,44 @@ import { createRoot } from 'react-dom/client'
 import './index.css'
 import App from './App.tsx'
 import {initDB} from "./db.ts";
+import {indexEmbeddings, recountTokensIfNeeded} from "./ai.ts";
+import {rebuildSearchIndexIfNeeded} from "./search.ts";
 import {QueryClient, QueryClientProvider} from "@tanstack/react-query";
+import {initEncryption} from "./encryption.ts";
+import {LockGate} from "./LockView.tsx";
+import {startOutbox} from "./outbox.ts";
+import {startCompression} from "./compression.ts";
+import {regenerateStaleSummaries} from "./editing.ts";
+import {ensureCurrentJournal} from "./journals.ts";
 
 initDB();
+initEncryption().catch((e) => console.error("Failed to load encryption config", e));
+
+// The background jobs need the decrypted journal, so they wait for unlock.
+// The queues go by token counts, so they start once those are recounted.
+function startBackgroundJobs() {
+  ensureCurrentJournal().catch((e) => console.error("Failed to load journals", e));
+  indexEmbeddings().catch((e) => console.error("Failed to index embeddings", e));
+  rebuildSearchIndexIfNeeded().catch((e) => console.error("Failed to rebuild search index", e));
+  recountTokensIfNeeded()
+    .catch((e) => console.error("Failed to recount tokens", e))
+    .finally(() => {
+      startOutbox(queryClient);
+      startCompression(queryClient);
+      regenerateStaleSummaries()
+        .then(() => queryClient.invalidateQueries({ queryKey: ["chat"] }))
+        .catch((e) => console.error("Failed to regenerate summaries", e));
+    });
+}
 
 const queryClient = new QueryClient();
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
       <QueryClientProvider client={queryClient}>
+    <LockGate onUnlock={startBackgroundJobs}>
     <App />
+    </LockGate>
       </QueryClientProvider>
   </StrictMode>,
 )
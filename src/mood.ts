@@ -0,0 +1,106 @@
+import { useQuery } from "@tanstack/react-query";
+import { getJournalMessages, getMessage, Mood, updateData } from "./db.ts";
+import { createJsonCompletion } from "./ai.ts";
+import { getSettings } from "./settings.ts";
+import { getStrings } from "./i18n.ts";
+
+const MOOD_PROMPT = `
+You read a personal journal entry and note how its author feels. Reply with a JSON object:
+
+{"score": 1-10, "emotions": ["..."], "energy": 1-10 or null, "sleepHours": number or null}
+
+- score: overall mood, 1 is the worst, 10 the best, 5 neutral
+- emotions: up to three main emotions, single lowercase words in the language of the entry
+- energy: only if the entry says how energetic or tired the author is
+- sleepHours: only if the entry says how long the author slept
+`.trim();
+
+const MAX_EMOTIONS = 3;
+
+function toScore(value: unknown): number | null {
+  if (typeof value !== "number" || !Number.isFinite(value)) return null;
+  return Math.min(10, Math.max(1, Math.round(value)));
+}
+
+// Models don't always stick to the format, so whatever is off is dropped
+// rather than failing the whole reply.
+function toMood(json: unknown): Mood | null {
+  if (typeof json !== "object" || json === null) return null;
+  const { score, emotions, energy, sleepHours } = json as Record<
+    string,
+    unknown
+  >;
+  const moodScore = toScore(score);
+  if (moodScore === null) return null;
+  return {
+    score: moodScore,
+    emotions: Array.isArray(emotions)
+      ? emotions
+          .filter((e) => typeof e === "string" && e.trim() !== "")
+          .map((e: string) => e.trim().toLowerCase())
+          .slice(0, MAX_EMOTIONS)
+      : [],
+    energy: toScore(energy),
+    sleepHours:
+      typeof sleepHours === "number" && sleepHours >= 0 && sleepHours <= 24
+        ? sleepHours
+        : null,
+    source: "auto",
+  };
+}
+
+export function createManualMood(score: number): Mood {
+  return {
+    score,
+    emotions: [],
+    energy: null,
+    sleepHours: null,
+    source: "manual",
+  };
+}
+
+// Reads the mood of a sent message and stores it with the message. A score
+// the user picked is kept; the rest comes from the entry.
+export async function trackMood(messageId: string) {
+  if (!getSettings().moodTracking) return;
+  const message = await getMessage(messageId);
+  if (!message || message.pending) return;
+
+  const extracted = toMood(
+    await createJsonCompletion("summary", MOOD_PROMPT, message.userContent),
+  );
+  if (!extracted) throw new Error(getStrings().mood.noScore);
+
+  // The message may have been summarized in the meantime.
+  const current = await getMessage(messageId);
+  if (!current) return;
+  const mood =
+    current.mood?.source === "manual"
+      ? { ...extracted, score: current.mood.score, source: "manual" as const }
+      : extracted;
+  await updateData([], [{ ...current, mood }]);
+}
+
+export interface MoodPoint {
+  id: string;
+  date: Date;
+  mood: Mood;
+}
+
+// Active and archived messages alike, oldest first.
+export async function getMoodHistory(journalId: string): Promise<MoodPoint[]> {
+  const messages = await getJournalMessages(journalId);
+  return messages
+    .flatMap((m) =>
+      m.mood ? [{ id: m.id, date: m.createdAt, mood: m.mood }] : [],
+    )
+    .sort((a, b) => a.date.valueOf() - b.date.valueOf());
+}
+
+export function useMoodHistory(journalId: string): MoodPoint[] {
+  const { data } = useQuery({
+    queryKey: ["chat", "mood", journalId],
+    queryFn: () => getMoodHistory(journalId),
+  });
+  return data ?? [];
+}
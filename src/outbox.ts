@@ -0,0 +1,184 @@
+import { QueryClient, useQueryClient } from "@tanstack/react-query";
+import { useCallback, useSyncExternalStore } from "react";
+import { v4 as uuidv4 } from "uuid";
+import {
+  DBMessage,
+  getMessagesBySummaryId,
+  putAttachments,
+  updateData,
+} from "./db.ts";
+import {
+  ChatItem,
+  ChatMessage,
+  createCompletion,
+  getChat,
+  isPending,
+} from "./ai.ts";
+import { useCurrentJournalId } from "./journals.ts";
+import { scheduleCompression } from "./compression.ts";
+import { createManualMood, trackMood } from "./mood.ts";
+import { mergeTags, suggestTags } from "./tags.ts";
+import { updateProfile } from "./profile.ts";
+import { createAttachments } from "./attachments.ts";
+
+export type OutboxStatus =
+  | { state: "idle" }
+  | { state: "sending" }
+  | { state: "offline" }
+  | { state: "failed"; error: string };
+
+let status: OutboxStatus = { state: "idle" };
+const listeners = new Set<() => void>();
+
+function setStatus(newStatus: OutboxStatus) {
+  status = newStatus;
+  listeners.forEach((listener) => listener());
+}
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function useOutboxStatus(): OutboxStatus {
+  return useSyncExternalStore(subscribe, () => status);
+}
+
+let queryClient: QueryClient | null = null;
+let running: Promise<void> | null = null;
+let rerun = false;
+
+async function getNextPending(): Promise<DBMessage | undefined> {
+  // Active messages of every journal.
+  const messages = await getMessagesBySummaryId("NULL");
+  return messages
+    .filter((message) => message.pending)
+    .sort((a, b) => a.createdAt.valueOf() - b.createdAt.valueOf())[0];
+}
+
+function showMessage(message: ChatMessage) {
+  queryClient?.setQueryData<ChatItem[]>(["chat", message.journalId], (items) =>
+    items?.map((item) => (item.id === message.id ? message : item)),
+  );
+}
+
+async function sendPending(pending: DBMessage) {
+  // Later pending messages are not part of the conversation yet.
+  const chat = (await getChat(pending.journalId)).filter(
+    (item) => !isPending(item),
+  );
+  await createCompletion(chat, pending, showMessage);
+  // Before compressing, which may move the message into a summary.
+  await trackMood(pending.id).catch((e) =>
+    console.error("Failed to track mood", e),
+  );
+  await suggestTags(pending.id).catch((e) =>
+    console.error("Failed to suggest tags", e),
+  );
+  await updateProfile(pending.id).catch((e) =>
+    console.error("Failed to update profile", e),
+  );
+  scheduleCompression(pending.journalId);
+}
+
+async function drain() {
+  for (;;) {
+    if (!navigator.onLine) {
+      setStatus({ state: "offline" });
+      return;
+    }
+    const pending = await getNextPending();
+    if (!pending) {
+      setStatus({ state: "idle" });
+      return;
+    }
+    setStatus({ state: "sending" });
+    try {
+      await sendPending(pending);
+    } finally {
+      await queryClient?.invalidateQueries({ queryKey: ["chat"] });
+    }
+  }
+}
+
+// Sends pending messages one at a time, oldest first. A failure stops the
+// queue until the next trigger, so the order is kept.
+export function processOutbox(): Promise<void> {
+  if (running) {
+    rerun = true;
+    return running;
+  }
+  running = (async () => {
+    try {
+      do {
+        rerun = false;
+        await drain();
+      } while (rerun);
+    } catch (e) {
+      console.error("Failed to send pending message", e);
+      setStatus({
+        state: "failed",
+        error: e instanceof Error ? e.message : String(e),
+      });
+    } finally {
+      running = null;
+    }
+  })();
+  return running;
+}
+
+export function startOutbox(client: QueryClient) {
+  if (!queryClient) {
+    window.addEventListener("online", () => {
+      processOutbox();
+    });
+    window.addEventListener("offline", () => {
+      if (!running) setStatus({ state: "offline" });
+    });
+  }
+  queryClient = client;
+  processOutbox();
+}
+
+// The message is saved before anything goes over the network, so it is kept
+// even if the reply never comes or the tab is closed.
+export function usePostMessage() {
+  const client = useQueryClient();
+  const journalId = useCurrentJournalId();
+
+  const execute = useCallback(
+    async (
+      text: string,
+      moodScore: number | null,
+      tags: string[],
+      files: File[],
+    ) => {
+      const id = uuidv4().toString();
+      const attachments = createAttachments(files, journalId, id);
+      const message: DBMessage = {
+        id,
+        journalId,
+        createdAt: new Date(),
+        userContent: text,
+        assistantContent: "",
+        tokensCount: 0,
+        summaryId: "NULL",
+        pending: true,
+        tags: mergeTags(tags),
+      };
+      if (moodScore !== null) message.mood = createManualMood(moodScore);
+      if (attachments.length > 0) {
+        message.attachmentIds = attachments.map((a) => a.id);
+        await putAttachments(attachments);
+      }
+      await updateData([], [message]);
+      await client.invalidateQueries({ queryKey: ["chat"] });
+      processOutbox();
+    },
+    [client, journalId],
+  );
+
+  return { execute };
+}
@@ -0,0 +1,156 @@
+import { useQuery } from "@tanstack/react-query";
+import { v4 as uuidv4 } from "uuid";
+import { getMessage, getProfile, ProfileFact, putProfile } from "./db.ts";
+import { createJsonCompletion } from "./ai.ts";
+import { getSettings } from "./settings.ts";
+import { getStrings } from "./i18n.ts";
+
+const PROFILE_PROMPT = `
+You keep a profile of the author of a personal journal: lasting facts about them, like the people in their life, their work, ongoing goals, health conditions and preferences. You are given the numbered facts of the profile and a new entry. Reply with a JSON object:
+
+{"operations": [{"op": "add", "text": "..."}, {"op": "update", "n": 1, "text": "..."}, {"op": "remove", "n": 2}]}
+
+- add: a lasting fact the entry tells that the profile lacks, one short sentence in the language of the entry
+- update: a fact the entry changes or makes more precise, by its number
+- remove: a fact the entry shows is no longer true, by its number
+- facts marked (user) were written by the author, leave them as they are
+- leave out passing events and moods, they are kept elsewhere
+- an empty list is fine, most entries change nothing
+`.trim();
+
+// Past this the profile stops growing; the model can still update and
+// remove facts.
+const MAX_PROFILE_FACTS = 50;
+
+type ProfileOperation =
+  | { op: "add"; text: string }
+  | { op: "update"; n: number; text: string }
+  | { op: "remove"; n: number };
+
+// Models don't always stick to the format, so whatever is off is dropped
+// rather than failing the whole reply.
+function toOperations(json: unknown): ProfileOperation[] | null {
+  if (typeof json !== "object" || json === null) return null;
+  const { operations } = json as Record<string, unknown>;
+  if (!Array.isArray(operations)) return null;
+  return operations.flatMap((value): ProfileOperation[] => {
+    if (typeof value !== "object" || value === null) return [];
+    const { op, n, text } = value as Record<string, unknown>;
+    const hasText = typeof text === "string" && text.trim() !== "";
+    const hasNumber = typeof n === "number" && Number.isInteger(n);
+    if (op === "add" && hasText) return [{ op, text: text.trim() }];
+    if (op === "update" && hasNumber && hasText) {
+      return [{ op, n, text: text.trim() }];
+    }
+    if (op === "remove" && hasNumber) return [{ op, n }];
+    return [];
+  });
+}
+
+function applyOperations(
+  facts: ProfileFact[],
+  known: ProfileFact[],
+  operations: ProfileOperation[],
+): ProfileFact[] {
+  const updatedAt = new Date();
+  let result = [...facts];
+  for (const operation of operations) {
+    if (operation.op === "add") {
+      if (result.length >= MAX_PROFILE_FACTS) continue;
+      result.push({
+        id: uuidv4(),
+        text: operation.text,
+        updatedAt,
+        source: "auto",
+      });
+      continue;
+    }
+    // The numbers are of the facts the model was shown.
+    const id = known[operation.n - 1]?.id;
+    const fact = result.find((f) => f.id === id);
+    if (!fact || fact.source === "manual") continue;
+    result =
+      operation.op === "update"
+        ? result.map((f) =>
+            f === fact ? { ...f, text: operation.text, updatedAt } : f,
+          )
+        : result.filter((f) => f !== fact);
+  }
+  return result;
+}
+
+// Lets the model add, update and remove facts of the profile after reading
+// a sent message.
+export async function updateProfile(messageId: string) {
+  if (!getSettings().profileMemory) return;
+  const message = await getMessage(messageId);
+  if (!message || message.pending) return;
+
+  const known = (await getProfile(message.journalId)).facts;
+  const facts = known
+    .map(
+      (fact, index) =>
+        `${index + 1}. ${fact.text}${fact.source === "manual" ? " (user)" : ""}`,
+    )
+    .join("\n");
+  const operations = toOperations(
+    await createJsonCompletion(
+      "summary",
+      PROFILE_PROMPT,
+      `Profile:\n${facts || "empty"}\n\nEntry:\n${message.userContent}`,
+    ),
+  );
+  if (!operations) throw new Error(getStrings().profile.noOperations);
+  if (operations.length === 0) return;
+
+  // The user may have edited the profile in the meantime.
+  const current = await getProfile(message.journalId);
+  await putProfile({
+    ...current,
+    facts: applyOperations(current.facts, known, operations),
+  });
+}
+
+// Adds a fact when `factId` is null. Either way the fact becomes the user's.
+export async function setProfileFact(
+  journalId: string,
+  factId: string | null,
+  text: string,
+) {
+  const profile = await getProfile(journalId);
+  const fact: ProfileFact = {
+    id: factId ?? uuidv4(),
+    text: text.trim(),
+    updatedAt: new Date(),
+    source: "manual",
+  };
+  const facts =
+    factId === null
+      ? [...profile.facts, fact]
+      : profile.facts.map((f) => (f.id === factId ? fact : f));
+  await putProfile({ ...profile, facts });
+}
+
+export async function deleteProfileFact(journalId: string, factId: string) {
+  const profile = await getProfile(journalId);
+  await putProfile({
+    ...profile,
+    facts: profile.facts.filter((f) => f.id !== factId),
+  });
+}
+
+// How the profile is put in front of the chat model.
+export function formatProfile(facts: ProfileFact[]): string {
+  return [
+    "What is known about the user from earlier entries:",
+    ...facts.map((fact) => `- ${fact.text}`),
+  ].join("\n");
+}
+
+export function useProfile(journalId: string): ProfileFact[] | undefined {
+  const { data } = useQuery({
+    queryKey: ["chat", "profile", journalId],
+    queryFn: async () => (await getProfile(journalId)).facts,
+  });
+  return data;
+}
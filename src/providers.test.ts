@@ -0,0 +1,125 @@
+import { describe, expect, it } from "vitest";
+import {
+  createProfile,
+  getContextWindow,
+  getDefaultProviderSettings,
+  getProviderSettings,
+  PROVIDER_PRESETS,
+  ProviderSettings,
+  supportsVision,
+  validateProviderSettings,
+} from "./providers.ts";
+import { getStrings } from "./i18n.ts";
+
+const strings = getStrings().providers;
+
+function withProfile(
+  settings: ProviderSettings,
+  overrides: Parameters<typeof createProfile>[1],
+): ProviderSettings {
+  const [chat, ...rest] = settings.profiles;
+  return { ...settings, profiles: [{ ...chat, ...overrides }, ...rest] };
+}
+
+describe("validateProviderSettings", () => {
+  it("accepts the defaults", () => {
+    expect(validateProviderSettings(getDefaultProviderSettings())).toEqual([]);
+  });
+
+  it("requires a profile for every role", () => {
+    const settings = getDefaultProviderSettings();
+    settings.roles.embedding = "missing";
+    expect(validateProviderSettings(settings)).toEqual([
+      strings.noProfile(strings.roles.embedding),
+    ]);
+  });
+
+  it("reports every problem of a profile by its name", () => {
+    const settings = withProfile(getDefaultProviderSettings(), {
+      name: "Chat",
+      baseUrl: "ftp://example.com",
+      model: " ",
+      temperature: 3,
+      contextWindow: 100,
+    });
+    expect(validateProviderSettings(settings)).toEqual([
+      strings.invalidUrl("Chat"),
+      strings.emptyModel("Chat"),
+      strings.invalidTemperature("Chat"),
+      strings.invalidContextWindow("Chat"),
+    ]);
+  });
+
+  it("names a profile without a name as unnamed", () => {
+    const settings = withProfile(getDefaultProviderSettings(), {
+      name: "",
+      baseUrl: "not a url",
+    });
+    expect(validateProviderSettings(settings)).toEqual([
+      strings.emptyName,
+      strings.invalidUrl(strings.unnamed),
+    ]);
+  });
+});
+
+describe("getContextWindow", () => {
+  const profile = (model: string, contextWindow?: number) =>
+    createProfile(PROVIDER_PRESETS[0], { model, contextWindow });
+
+  it("guesses the window from the model name", () => {
+    expect(getContextWindow(profile("gpt-4o-mini"))).toBe(128000);
+    expect(getContextWindow(profile("gpt-4.1-nano"))).toBe(1047576);
+    expect(getContextWindow(profile("gpt-4-32k"))).toBe(32768);
+    expect(getContextWindow(profile("gpt-4"))).toBe(8192);
+  });
+
+  it("falls back to a small window for unknown models", () => {
+    expect(getContextWindow(profile("mistral"))).toBe(8192);
+  });
+
+  it("prefers the window set in the profile", () => {
+    expect(getContextWindow(profile("gpt-4o", 16000))).toBe(16000);
+  });
+});
+
+describe("supportsVision", () => {
+  it("guesses from the model name unless set", () => {
+    const preset = PROVIDER_PRESETS[0];
+    expect(supportsVision(createProfile(preset, { model: "gpt-4o" }))).toBe(
+      true,
+    );
+    expect(supportsVision(createProfile(preset, { model: "llama3.1" }))).toBe(
+      false,
+    );
+    expect(
+      supportsVision(createProfile(preset, { model: "gpt-4o", vision: false })),
+    ).toBe(false);
+  });
+});
+
+describe("getProviderSettings", () => {
+  it("adds a transcription profile to old settings once", () => {
+    const { profiles, roles } = getDefaultProviderSettings();
+    const chat = { ...profiles[0], baseUrl: "http://localhost:1234/v1" };
+    localStorage.setItem(
+      "PROVIDERS",
+      JSON.stringify({
+        profiles: [chat, ...profiles.slice(1, 3)],
+        roles: {
+          chat: roles.chat,
+          summary: roles.summary,
+          embedding: roles.embedding,
+        },
+      }),
+    );
+
+    const first = getProviderSettings();
+    const second = getProviderSettings();
+    expect(second).toEqual(first);
+    const transcription = first.profiles.find(
+      (p) => p.id === first.roles.transcription,
+    );
+    expect(transcription?.baseUrl).toBe(chat.baseUrl);
+    expect(validateProviderSettings(first)).toEqual([]);
+  });
+});
@@ -0,0 +1,322 @@
+import { v4 as uuidv4 } from "uuid";
+import {
+  decryptString,
+  encryptString,
+  getJournalKey,
+  isEncrypted,
+  JournalKey,
+} from "./crypto.ts";
+import { getStrings } from "./i18n.ts";
+
+export interface ProviderProfile {
+  id: string;
+  name: string;
+  baseUrl: string;
+  apiKey: string;
+  model: string;
+  temperature: number;
+  // Most self-hosted servers reject the "developer" role, so such messages
+  // are sent as "system" instead when this is off.
+  developerRole: boolean;
+  // Tokens the model takes in, prompt and reply together. Guessed from the
+  // model name when unset.
+  contextWindow?: number;
+  // Whether the model takes images. Guessed from the model name when unset.
+  vision?: boolean;
+}
+
+export type ProviderRole = "chat" | "summary" | "embedding" | "transcription";
+
+export const PROVIDER_ROLES: ProviderRole[] = [
+  "chat",
+  "summary",
+  "embedding",
+  "transcription",
+];
+
+export interface ProviderSettings {
+  profiles: ProviderProfile[];
+  roles: Record<ProviderRole, string>;
+}
+
+export interface ProviderPreset {
+  name: string;
+  baseUrl: string;
+  model: string;
+  developerRole: boolean;
+}
+
+export const PROVIDER_PRESETS: ProviderPreset[] = [
+  {
+    name: "OpenAI",
+    baseUrl: "https://api.openai.com/v1",
+    model: "gpt-4o",
+    developerRole: true,
+  },
+  {
+    name: "ProxyAPI",
+    baseUrl: "https://api.proxyapi.ru/openai/v1",
+    model: "gpt-4o",
+    developerRole: true,
+  },
+  {
+    name: "Ollama",
+    baseUrl: "http://localhost:11434/v1",
+    model: "llama3.1",
+    developerRole: false,
+  },
+  {
+    name: "llama.cpp",
+    baseUrl: "http://localhost:8080/v1",
+    model: "default",
+    developerRole: false,
+  },
+  {
+    name: "Local Whisper",
+    baseUrl: "http://localhost:8000/v1",
+    model: "Systran/faster-whisper-small",
+    developerRole: false,
+  },
+];
+
+// New profiles start on it, since it is reachable from where most users are.
+const DEFAULT_PRESET_NAME = "ProxyAPI";
+
+const DEFAULT_TRANSCRIPTION_MODEL = "whisper-1";
+
+// Checked in order, so a longer name comes before its prefix.
+const MODEL_CONTEXT_WINDOWS: [RegExp, number][] = [
+  [/^gpt-4\.1/, 1047576],
+  [/^gpt-5/, 400000],
+  [/^(gpt-4o|gpt-4-turbo|o1|o3|o4)/, 128000],
+  [/^gpt-4-32k/, 32768],
+  [/^gpt-4/, 8192],
+  [/^gpt-3\.5-turbo/, 16385],
+  [/^llama3\.[123]/, 131072],
+];
+
+// Local servers often run with a small window whatever the model supports.
+const DEFAULT_CONTEXT_WINDOW = 8192;
+
+export function getContextWindow(provider: ProviderProfile): number {
+  if (provider.contextWindow) return provider.contextWindow;
+  const match = MODEL_CONTEXT_WINDOWS.find(([pattern]) =>
+    pattern.test(provider.model),
+  );
+  return match ? match[1] : DEFAULT_CONTEXT_WINDOW;
+}
+
+const VISION_MODELS = [
+  /^(gpt-4o|gpt-4\.1|gpt-4-turbo|gpt-5|o1|o3|o4)/,
+  /^(llava|llama3\.2-vision|llama4|gemma3|qwen2\.5vl|minicpm-v)/,
+];
+
+export function supportsVision(provider: ProviderProfile): boolean {
+  return (
+    provider.vision ??
+    VISION_MODELS.some((pattern) => pattern.test(provider.model))
+  );
+}
+
+const PROVIDERS_STORAGE_KEY = "PROVIDERS";
+
+// Kept for users who have configured the key before profiles existed.
+const LEGACY_API_KEY_STORAGE_KEY = "OPENAI_API_KEY";
+
+export function createProfile(
+  preset: ProviderPreset,
+  overrides: Partial<ProviderProfile> = {},
+): ProviderProfile {
+  return {
+    id: uuidv4().toString(),
+    name: preset.name,
+    baseUrl: preset.baseUrl,
+    apiKey: "",
+    model: preset.model,
+    temperature: 1,
+    developerRole: preset.developerRole,
+    ...overrides,
+  };
+}
+
+function getDefaultPreset(): ProviderPreset {
+  const preset = PROVIDER_PRESETS.find((p) => p.name === DEFAULT_PRESET_NAME);
+  if (!preset) throw new Error(`Unknown preset ${DEFAULT_PRESET_NAME}`);
+  return preset;
+}
+
+export function getDefaultProviderSettings(): ProviderSettings {
+  const proxy = getDefaultPreset();
+  const apiKey = localStorage.getItem(LEGACY_API_KEY_STORAGE_KEY) ?? "";
+
+  const chat = createProfile(proxy, { name: "Chat", apiKey });
+  const summary = createProfile(proxy, {
+    name: "Summary",
+    apiKey,
+    temperature: 0,
+  });
+  const embedding = createProfile(proxy, {
+    name: "Embeddings",
+    apiKey,
+    model: "text-embedding-3-large",
+  });
+  const transcription = createProfile(proxy, {
+    name: "Transcription",
+    apiKey,
+    model: DEFAULT_TRANSCRIPTION_MODEL,
+  });
+
+  return {
+    profiles: [chat, summary, embedding, transcription],
+    roles: {
+      chat: chat.id,
+      summary: summary.id,
+      embedding: embedding.id,
+      transcription: transcription.id,
+    },
+  };
+}
+
+// Settings saved before transcription existed get a profile for it on the
+// server of the chat profile, with the same key, stored as it is.
+function addTranscriptionProfile(settings: ProviderSettings): ProviderSettings {
+  const chat = settings.profiles.find((p) => p.id === settings.roles.chat);
+  const transcription = {
+    ...createProfile(getDefaultPreset(), {
+      name: "Transcription",
+      model: DEFAULT_TRANSCRIPTION_MODEL,
+    }),
+    ...(chat && { baseUrl: chat.baseUrl, apiKey: chat.apiKey }),
+  };
+  return {
+    profiles: [...settings.profiles, transcription],
+    roles: { ...settings.roles, transcription: transcription.id },
+  };
+}
+
+function readProviderSettings(): ProviderSettings {
+  const json = localStorage.getItem(PROVIDERS_STORAGE_KEY);
+  if (!json) return getDefaultProviderSettings();
+  const settings = JSON.parse(json) as ProviderSettings;
+  if (settings.roles.transcription) return settings;
+
+  // Saved right away, or every read would make a profile of its own.
+  const migrated = addTranscriptionProfile(settings);
+  localStorage.setItem(PROVIDERS_STORAGE_KEY, JSON.stringify(migrated));
+  return migrated;
+}
+
+// With encryption on, the stored API keys are only usable once
+// loadProviderSettings has decrypted them after unlocking.
+let cachedSettings: ProviderSettings | null = null;
+
+export function getProviderSettings(): ProviderSettings {
+  return cachedSettings ?? readProviderSettings();
+}
+
+async function decryptApiKey(
+  key: JournalKey | null,
+  apiKey: string,
+): Promise<string> {
+  if (!key || !isEncrypted(apiKey)) return apiKey;
+  try {
+    return await decryptString(key, apiKey);
+  } catch (e) {
+    console.error("Failed to decrypt API key", e);
+    return "";
+  }
+}
+
+export async function loadProviderSettings() {
+  const key = getJournalKey();
+  const settings = readProviderSettings();
+  const profiles = await Promise.all(
+    settings.profiles.map(async (profile) => ({
+      ...profile,
+      apiKey: await decryptApiKey(key, profile.apiKey),
+    })),
+  );
+  cachedSettings = { ...settings, profiles };
+}
+
+export function clearProviderSettingsCache() {
+  cachedSettings = null;
+}
+
+function isValidUrl(url: string): boolean {
+  try {
+    const { protocol } = new URL(url);
+    return protocol === "http:" || protocol === "https:";
+  } catch {
+    return false;
+  }
+}
+
+export function validateProviderSettings(settings: ProviderSettings): string[] {
+  const strings = getStrings().providers;
+  const errors: string[] = [];
+  for (const role of PROVIDER_ROLES) {
+    if (!settings.profiles.some((p) => p.id === settings.roles[role])) {
+      errors.push(strings.noProfile(strings.roles[role]));
+    }
+  }
+  for (const profile of settings.profiles) {
+    const name = profile.name.trim() || strings.unnamed;
+    if (profile.name.trim() === "") {
+      errors.push(strings.emptyName);
+    }
+    if (!isValidUrl(profile.baseUrl)) {
+      errors.push(strings.invalidUrl(name));
+    }
+    if (profile.model.trim() === "") {
+      errors.push(strings.emptyModel(name));
+    }
+    if (
+      !Number.isFinite(profile.temperature) ||
+      profile.temperature < 0 ||
+      profile.temperature > 2
+    ) {
+      errors.push(strings.invalidTemperature(name));
+    }
+    if (
+      profile.contextWindow !== undefined &&
+      (!Number.isInteger(profile.contextWindow) || profile.contextWindow < 1024)
+    ) {
+      errors.push(strings.invalidContextWindow(name));
+    }
+  }
+  return errors;
+}
+
+export async function saveProviderSettings(settings: ProviderSettings) {
+  const errors = validateProviderSettings(settings);
+  if (errors.length > 0) throw new Error(errors.join("\n"));
+
+  const key = getJournalKey();
+  const profiles = await Promise.all(
+    settings.profiles.map(async (profile) => ({
+      ...profile,
+      apiKey:
+        key && profile.apiKey
+          ? await encryptString(key, profile.apiKey)
+          : profile.apiKey,
+    })),
+  );
+
+  localStorage.setItem(
+    PROVIDERS_STORAGE_KEY,
+    JSON.stringify({ ...settings, profiles }),
+  );
+  localStorage.removeItem(LEGACY_API_KEY_STORAGE_KEY);
+  cachedSettings = settings;
+}
+
+export function getProvider(role: ProviderRole): ProviderProfile {
+  const settings = getProviderSettings();
+  const profile = settings.profiles.find((p) => p.id === settings.roles[role]);
+  if (!profile) {
+    const strings = getStrings().providers;
+    throw new Error(strings.noProfile(strings.roles[role]));
+  }
+  return profile;
+}
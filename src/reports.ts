@@ -0,0 +1,148 @@
+import { useQuery } from "@tanstack/react-query";
+import { addMonths, addWeeks, startOfMonth, startOfWeek } from "date-fns";
+import { v4 as uuidv4 } from "uuid";
+import {
+  getJournalMessages,
+  getReports,
+  putReport,
+  Report,
+  ReportContent,
+  ReportPeriod,
+} from "./db.ts";
+import { createJsonCompletion, formatTimestamp } from "./ai.ts";
+import { getStrings } from "./i18n.ts";
+import { countTokens } from "./tokenizer.ts";
+import { getProvider } from "./providers.ts";
+
+const REPORT_PROMPT = `
+You help the author of a personal journal reflect on a period of their life. You get every entry they wrote in the period, and sometimes your reflection on the period before it. Reply with a JSON object:
+
+{"themes": [], "wins": [], "struggles": [], "patterns": [], "focus": [], "changes": []}
+
+- themes: what the period was mostly about
+- wins: what went well, however small
+- struggles: what was hard
+- patterns: thoughts, feelings or situations that keep coming back
+- focus: two or three things worth paying attention to in the next period
+- changes: how this period differs from the previous one; empty when there is no previous reflection
+
+Every list holds short sentences in the language of the entries, addressed to the author.
+`.trim();
+
+// The entries of a busy month still fit, and a report of more than that would
+// be better made a week at a time.
+const MAX_REPORT_TOKENS = 60000;
+
+const SECTIONS: (keyof ReportContent)[] = [
+  "themes",
+  "wins",
+  "struggles",
+  "patterns",
+  "focus",
+  "changes",
+];
+
+const WEEK_OPTIONS = { weekStartsOn: 1 } as const;
+
+export function getPeriodStart(period: ReportPeriod, date: Date): Date {
+  return period === "week"
+    ? startOfWeek(date, WEEK_OPTIONS)
+    : startOfMonth(date);
+}
+
+export function shiftPeriod(
+  period: ReportPeriod,
+  start: Date,
+  amount: number,
+): Date {
+  return period === "week" ? addWeeks(start, amount) : addMonths(start, amount);
+}
+
+export function findReport(
+  reports: Report[],
+  period: ReportPeriod,
+  start: Date,
+): Report | undefined {
+  return reports.find(
+    (r) => r.period === period && r.periodStart.getTime() === start.getTime(),
+  );
+}
+
+function toReportContent(json: unknown): ReportContent {
+  if (typeof json !== "object" || json === null) {
+    throw new Error("The reply is not a report");
+  }
+  const fields = json as Record<string, unknown>;
+  const content = {} as ReportContent;
+  for (const section of SECTIONS) {
+    const items = fields[section];
+    content[section] = Array.isArray(items)
+      ? items.filter((item) => typeof item === "string" && item.trim() !== "")
+      : [];
+  }
+  return content;
+}
+
+function formatReport(content: ReportContent): string {
+  return SECTIONS.filter((section) => content[section].length > 0)
+    .map(
+      (section) =>
+        `${section}:\n${content[section].map((item) => `- ${item}`).join("\n")}`,
+    )
+    .join("\n\n");
+}
+
+// Makes the report of the period from every message written in it, active or
+// archived, and replaces the one made before.
+export async function generateReport(
+  journalId: string,
+  period: ReportPeriod,
+  periodStart: Date,
+): Promise<Report> {
+  const periodEnd = shiftPeriod(period, periodStart, 1);
+  const messages = (await getJournalMessages(journalId))
+    .filter((m) => m.createdAt >= periodStart && m.createdAt < periodEnd)
+    .sort((a, b) => a.createdAt.valueOf() - b.createdAt.valueOf());
+  if (messages.length === 0) throw new Error(getStrings().reports.noEntries);
+
+  const entries = messages
+    .map((m) => `[${formatTimestamp(m.createdAt)}]\n\n${m.userContent}`)
+    .join("\n\n");
+  const tokens = countTokens(entries, getProvider("summary").model);
+  if (tokens > MAX_REPORT_TOKENS) {
+    throw new Error(getStrings().reports.tooLong(tokens));
+  }
+
+  const reports = await getReports(journalId);
+  const existing = findReport(reports, period, periodStart);
+  const previous = findReport(
+    reports,
+    period,
+    shiftPeriod(period, periodStart, -1),
+  );
+  const text = previous
+    ? `[Reflection on the previous period]\n\n${formatReport(previous.content)}\n\n[Entries]\n\n${entries}`
+    : entries;
+
+  const report: Report = {
+    id: existing?.id ?? uuidv4(),
+    journalId,
+    period,
+    periodStart,
+    createdAt: new Date(),
+    messageCount: messages.length,
+    content: toReportContent(
+      await createJsonCompletion("summary", REPORT_PROMPT, text),
+    ),
+  };
+  await putReport(report);
+  return report;
+}
+
+export function useReports(journalId: string): Report[] {
+  const { data } = useQuery({
+    queryKey: ["reports", journalId],
+    queryFn: () => getReports(journalId),
+  });
+  return data ?? [];
+}
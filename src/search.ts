@@ -0,0 +1,191 @@
+import {
+  DBMessage,
+  DBSummary,
+  findSearchEntries,
+  getMessage,
+  getSummary,
+  rebuildSearchIndex,
+} from "./db.ts";
+import { extractTerms, splitWords, stemWord } from "./stemmer.ts";
+import { useQuery } from "@tanstack/react-query";
+
+export interface SearchFilter {
+  journalId: string;
+  text: string;
+  dateFrom: Date | null;
+  dateTo: Date | null;
+}
+
+export interface SnippetPart {
+  text: string;
+  highlight: boolean;
+}
+
+export interface SearchSnippet {
+  field: "user" | "assistant" | "summary";
+  parts: SnippetPart[];
+}
+
+export interface SearchResult {
+  id: string;
+  type: "message" | "summary";
+  date: Date;
+  // Ids of the summaries the entry is archived under, outermost first.
+  path: string[];
+  snippets: SearchSnippet[];
+}
+
+const SNIPPET_CONTEXT = 80;
+
+const SEARCH_INDEX_VERSION = "1";
+
+const SEARCH_INDEX_VERSION_STORAGE_KEY = "SEARCH_INDEX_VERSION";
+
+// Entries written before the index existed, or indexed with an older stemmer,
+// are only found after a full rebuild.
+export async function rebuildSearchIndexIfNeeded() {
+  const version = localStorage.getItem(SEARCH_INDEX_VERSION_STORAGE_KEY);
+  if (version === SEARCH_INDEX_VERSION) return;
+  await rebuildSearchIndex();
+  localStorage.setItem(SEARCH_INDEX_VERSION_STORAGE_KEY, SEARCH_INDEX_VERSION);
+}
+
+function buildSnippet(text: string, terms: Set<string>): SnippetPart[] | null {
+  const matches = splitWords(text).filter((w) => terms.has(stemWord(w.word)));
+  if (matches.length === 0) return null;
+
+  const start = Math.max(0, matches[0].index - SNIPPET_CONTEXT);
+  const end = Math.min(
+    text.length,
+    matches[0].index + matches[0].word.length + SNIPPET_CONTEXT,
+  );
+
+  const parts: SnippetPart[] = [];
+  let position = start;
+  for (const match of matches) {
+    const matchEnd = match.index + match.word.length;
+    if (match.index < start || matchEnd > end) continue;
+    parts.push({ text: text.slice(position, match.index), highlight: false });
+    parts.push({ text: match.word, highlight: true });
+    position = matchEnd;
+  }
+  parts.push({ text: text.slice(position, end), highlight: false });
+
+  if (start > 0) parts[0].text = `…${parts[0].text.trimStart()}`;
+  if (end < text.length) {
+    const last = parts[parts.length - 1];
+    last.text = `${last.text.trimEnd()}…`;
+  }
+  return parts;
+}
+
+function getMessageSnippets(
+  message: DBMessage,
+  terms: Set<string>,
+): SearchSnippet[] {
+  const snippets: SearchSnippet[] = [];
+  const user = buildSnippet(message.userContent, terms);
+  if (user) snippets.push({ field: "user", parts: user });
+  const assistant = buildSnippet(message.assistantContent, terms);
+  if (assistant) snippets.push({ field: "assistant", parts: assistant });
+  return snippets;
+}
+
+function getSummarySnippets(
+  summary: DBSummary,
+  terms: Set<string>,
+): SearchSnippet[] {
+  const parts = buildSnippet(summary.content, terms);
+  return parts ? [{ field: "summary", parts }] : [];
+}
+
+export async function getArchivePath(
+  parentId: string | "NULL",
+): Promise<string[]> {
+  const path: string[] = [];
+  while (parentId !== "NULL") {
+    path.unshift(parentId);
+    const parent = await getSummary(parentId);
+    if (!parent) break;
+    parentId = parent.parentId;
+  }
+  return path;
+}
+
+function isInRange(
+  from: Date,
+  to: Date,
+  dateFrom: Date | null,
+  dateTo: Date | null,
+): boolean {
+  if (dateFrom && to < dateFrom) return false;
+  if (dateTo && from > dateTo) return false;
+  return true;
+}
+
+export async function searchJournal(
+  filter: SearchFilter,
+): Promise<SearchResult[]> {
+  const terms = extractTerms(filter.text);
+  if (terms.length === 0) return [];
+
+  const entryLists = await Promise.all(terms.map(findSearchEntries));
+  entryLists.sort((a, b) => a.length - b.length);
+
+  // Every term has to match, so the rarest one gives the candidates.
+  const [candidates, ...rest] = entryLists;
+  const restIds = rest.map((list) => new Set(list.map((e) => e.id)));
+  const entries = candidates.filter((entry) =>
+    restIds.every((ids) => ids.has(entry.id)),
+  );
+
+  const termSet = new Set(terms);
+  const results: SearchResult[] = [];
+
+  for (const { id, type } of entries) {
+    if (type === "message") {
+      const message = await getMessage(id);
+      if (!message || message.journalId !== filter.journalId) continue;
+      const { createdAt } = message;
+      if (!isInRange(createdAt, createdAt, filter.dateFrom, filter.dateTo))
+        continue;
+      results.push({
+        id,
+        type: "message",
+        date: createdAt,
+        path: await getArchivePath(message.summaryId),
+        snippets: getMessageSnippets(message, termSet),
+      });
+    } else {
+      const summary = await getSummary(id);
+      if (!summary || summary.journalId !== filter.journalId) continue;
+      const { dateFrom, dateTo } = summary;
+      if (!isInRange(dateFrom, dateTo, filter.dateFrom, filter.dateTo))
+        continue;
+      results.push({
+        id,
+        type: "summary",
+        date: dateTo,
+        path: await getArchivePath(summary.parentId),
+        snippets: getSummarySnippets(summary, termSet),
+      });
+    }
+  }
+
+  return results.sort((a, b) => b.date.valueOf() - a.date.valueOf());
+}
+
+export function useSearchJournal(filter: SearchFilter): SearchResult[] {
+  const { data } = useQuery({
+    queryKey: [
+      "chat",
+      "search",
+      filter.journalId,
+      filter.text,
+      filter.dateFrom?.valueOf(),
+      filter.dateTo?.valueOf(),
+    ],
+    queryFn: () => searchJournal(filter),
+  });
+  return data ?? [];
+}
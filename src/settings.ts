@@ -0,0 +1,144 @@
+import { getLocale, getStrings, Locale, LOCALES } from "./i18n.ts";
+
+export interface Settings {
+  chatSystemPrompt: string;
+  compressSystemPrompt: string;
+  compressInstruction: string;
+  minSummaryTokens: number;
+  autoLockMinutes: number;
+  // Reads the mood from every new entry, at the cost of one more request.
+  moodTracking: boolean;
+  // Suggests tags for every new entry, at the cost of one more request.
+  autoTagging: boolean;
+  // Keeps the profile up to date from every new entry, at the cost of one
+  // more request.
+  profileMemory: boolean;
+}
+
+type Prompts = Pick<
+  Settings,
+  "chatSystemPrompt" | "compressSystemPrompt" | "compressInstruction"
+>;
+
+const PROMPT_KEYS: (keyof Prompts)[] = [
+  "chatSystemPrompt",
+  "compressSystemPrompt",
+  "compressInstruction",
+];
+
+// Summaries come out in the language of their prompts, so every language of
+// the interface has its own.
+const DEFAULT_PROMPTS: Record<Locale, Prompts> = {
+  en: {
+    chatSystemPrompt: `You are ChatGPT, a supportive and empathetic assistant helping the user to maintain a personal journal. Your role is to encourage self-reflection, provide constructive feedback, and prompt the user with questions that deepen their understanding of their thoughts and emotions. Ensure confidentiality and create a safe, non-judgmental space for expression. Guide the user towards clarity and personal growth by suggesting insights and encouraging positive, actionable steps.`,
+
+    compressSystemPrompt: `
+Your task is to pick out the key information from the given messages as a list with timestamps.
+
+**Answer format:**
+
+- [timestamp or range] fact, event, conclusion.
+- [timestamp or range] fact, event, conclusion.
+- [timestamp or range] fact, event, conclusion.
+`.trim(),
+
+    compressInstruction: `
+Write out the key information from the given messages.
+`.trim(),
+  },
+  ru: {
+    chatSystemPrompt: `Ты — ChatGPT, внимательный и чуткий помощник, который помогает пользователю вести личный дневник. Твоя роль — поощрять размышления о себе, давать конструктивную обратную связь и задавать вопросы, которые помогают глубже понять свои мысли и чувства. Соблюдай конфиденциальность и создавай безопасное пространство, где можно высказаться без осуждения. Помогай пользователю прийти к ясности и личностному росту, предлагая наблюдения и поощряя небольшие конкретные шаги.`,
+
+    compressSystemPrompt: `
+Твоя задача - выделить главную информацию из набора предоставленных сообщений в виде списка с указанием временных меток.
+
+**Формат ответа:**
+
+- [временная метка или диапазон] факт, событие, вывод.
+- [временная метка или диапазон] факт, событие, вывод.
+- [временная метка или диапазон] факт, событие, вывод.
+`.trim(),
+
+    compressInstruction: `
+Выпиши главную информацию из предоставленных сообщений.
+`.trim(),
+  },
+};
+
+export function getDefaultSettings(): Settings {
+  return {
+    ...DEFAULT_PROMPTS[getLocale()],
+    minSummaryTokens: 4000,
+    autoLockMinutes: 5,
+    moodTracking: true,
+    autoTagging: true,
+    profileMemory: true,
+  };
+}
+
+// A prompt still equal to the default of some language was never edited, so
+// it follows the language of the interface.
+function localizePrompts(settings: Settings): Settings {
+  const defaults = getDefaultSettings();
+  const localized = { ...settings };
+  for (const key of PROMPT_KEYS) {
+    const isDefault = LOCALES.some(
+      (locale) => DEFAULT_PROMPTS[locale][key] === settings[key],
+    );
+    if (isDefault) localized[key] = defaults[key];
+  }
+  return localized;
+}
+
+const SETTINGS_STORAGE_KEY = "SETTINGS";
+
+const listeners = new Set<() => void>();
+
+// Tells about every saved change, for whatever has to follow the settings
+// while running.
+export function subscribeSettings(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function getSettings(): Settings {
+  const json = localStorage.getItem(SETTINGS_STORAGE_KEY);
+  if (!json) return getDefaultSettings();
+  return localizePrompts({
+    ...getDefaultSettings(),
+    ...(JSON.parse(json) as Partial<Settings>),
+  });
+}
+
+export function validateSettings(settings: Settings): string[] {
+  const strings = getStrings().settings;
+  const errors: string[] = [];
+  if (settings.chatSystemPrompt.trim() === "") {
+    errors.push(strings.emptyChatPrompt);
+  }
+  if (settings.compressSystemPrompt.trim() === "") {
+    errors.push(strings.emptySummaryPrompt);
+  }
+  if (
+    !Number.isInteger(settings.minSummaryTokens) ||
+    settings.minSummaryTokens < 500
+  ) {
+    errors.push(strings.invalidSummarySize);
+  }
+  if (
+    !Number.isInteger(settings.autoLockMinutes) ||
+    settings.autoLockMinutes < 1
+  ) {
+    errors.push(strings.invalidAutoLock);
+  }
+  return errors;
+}
+
+export function saveSettings(settings: Settings) {
+  const errors = validateSettings(settings);
+  if (errors.length > 0) throw new Error(errors.join("\n"));
+  localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+  listeners.forEach((listener) => listener());
+}
@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import {
+  extractTerms,
+  splitWords,
+  stemEnglish,
+  stemRussian,
+  stemWord,
+} from "./stemmer.ts";
+
+describe("stemRussian", () => {
+  it("gives the forms of a noun one stem", () => {
+    const stems = ["книга", "книги", "книгу", "книгой", "книгами"].map(
+      stemRussian,
+    );
+    expect(new Set(stems)).toEqual(new Set(["книг"]));
+  });
+
+  it("gives the forms of a verb one stem", () => {
+    const stems = ["гулять", "гулял", "гуляла", "гуляли"].map(stemRussian);
+    expect(new Set(stems).size).toBe(1);
+  });
+
+  it("strips adjective endings", () => {
+    expect(stemRussian("красивая")).toBe(stemRussian("красивый"));
+  });
+
+  it("treats ё as е", () => {
+    expect(stemRussian("ёлка")).toBe(stemRussian("елка"));
+  });
+
+  it("leaves words without vowels as they are", () => {
+    expect(stemRussian("врр")).toBe("врр");
+  });
+});
+
+describe("stemEnglish", () => {
+  it("strips common suffixes", () => {
+    expect(stemEnglish("walking")).toBe("walk");
+    expect(stemEnglish("walked")).toBe("walk");
+    expect(stemEnglish("walks")).toBe("walk");
+  });
+
+  it("keeps at least three letters of the word", () => {
+    expect(stemEnglish("sing")).toBe("sing");
+    expect(stemEnglish("is")).toBe("is");
+  });
+
+  it("drops the possessive", () => {
+    expect(stemEnglish("anna's")).toBe("anna");
+  });
+});
+
+describe("stemWord", () => {
+  it("picks the stemmer by the alphabet and ignores case", () => {
+    expect(stemWord("Книги")).toBe(stemRussian("книги"));
+    expect(stemWord("Walking")).toBe("walk");
+  });
+});
+
+describe("splitWords", () => {
+  it("finds words with their positions", () => {
+    expect(splitWords("Hi, don't — 42!")).toEqual([
+      { word: "Hi", index: 0 },
+      { word: "don't", index: 4 },
+      { word: "42", index: 12 },
+    ]);
+  });
+});
+
+describe("extractTerms", () => {
+  it("stems every word once and skips single letters", () => {
+    expect(extractTerms("Книги и книгой, walks a walk")).toEqual([
+      "книг",
+      "walk",
+    ]);
+  });
+});
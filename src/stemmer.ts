@@ -0,0 +1,137 @@
+// Russian stemmer follows the Snowball algorithm:
+// https://snowballstem.org/algorithms/russian/stemmer.html
+// English only gets light suffix stripping, which is enough for search.
+
+const RUSSIAN_VOWELS = "аеиоуыэюя";
+
+const PERFECTIVE_GERUND =
+  /((ив|ивши|ившись|ыв|ывши|ывшись)|((?<=[ая])(в|вши|вшись)))$/;
+
+const REFLEXIVE = /(ся|сь)$/;
+
+const ADJECTIVE =
+  /(ее|ие|ые|ое|ими|ыми|ей|ий|ый|ой|ем|им|ым|ом|его|ого|ему|ому|их|ых|ую|юю|ая|яя|ою|ею)$/;
+
+const PARTICIPLE = /((ивш|ывш|ующ)|((?<=[ая])(ем|нн|вш|ющ|щ)))$/;
+
+const VERB =
+  /((ила|ыла|ена|ейте|уйте|ите|или|ыли|ей|уй|ил|ыл|им|ым|ен|ило|ыло|ено|ят|ует|уют|ит|ыт|ены|ить|ыть|ишь|ую|ю)|((?<=[ая])(ла|на|ете|йте|ли|й|л|ем|н|ло|но|ет|ют|ны|ть|ешь|нно)))$/;
+
+const NOUN =
+  /(а|ев|ов|ие|ье|е|иями|ями|ами|еи|ии|и|ией|ей|ой|ий|й|иям|ям|ием|ем|ам|ом|о|у|ах|иях|ях|ы|ь|ию|ью|ю|ия|ья|я)$/;
+
+const SUPERLATIVE = /(ейше|ейш)$/;
+
+const DERIVATIONAL = /(ость|ост)$/;
+
+function isRussianVowel(char: string): boolean {
+  return RUSSIAN_VOWELS.includes(char);
+}
+
+// Start of the region after the first non-vowel following a vowel.
+function findRegion(word: string, start: number): number {
+  for (let i = start + 1; i < word.length; ++i) {
+    if (!isRussianVowel(word[i]) && isRussianVowel(word[i - 1])) return i + 1;
+  }
+  return word.length;
+}
+
+export function stemRussian(word: string): string {
+  word = word.replace(/ё/g, "е");
+
+  let rvStart = 0;
+  while (rvStart < word.length && !isRussianVowel(word[rvStart])) ++rvStart;
+  if (rvStart >= word.length) return word;
+  rvStart += 1;
+
+  const r2Start = findRegion(word, findRegion(word, 0));
+  const prefix = word.slice(0, rvStart);
+  let rv = word.slice(rvStart);
+
+  if (PERFECTIVE_GERUND.test(rv)) {
+    rv = rv.replace(PERFECTIVE_GERUND, "");
+  } else {
+    rv = rv.replace(REFLEXIVE, "");
+    if (ADJECTIVE.test(rv)) {
+      rv = rv.replace(ADJECTIVE, "").replace(PARTICIPLE, "");
+    } else if (VERB.test(rv)) {
+      rv = rv.replace(VERB, "");
+    } else {
+      rv = rv.replace(NOUN, "");
+    }
+  }
+
+  rv = rv.replace(/и$/, "");
+
+  const derivational = DERIVATIONAL.exec(rv);
+  if (derivational && rvStart + derivational.index >= r2Start) {
+    rv = rv.slice(0, derivational.index);
+  }
+
+  if (SUPERLATIVE.test(rv)) {
+    rv = rv.replace(SUPERLATIVE, "").replace(/нн$/, "н");
+  } else if (/нн$/.test(rv)) {
+    rv = rv.slice(0, -1);
+  } else {
+    rv = rv.replace(/ь$/, "");
+  }
+
+  return prefix + rv;
+}
+
+const ENGLISH_SUFFIXES = [
+  "ingly",
+  "edly",
+  "ness",
+  "ment",
+  "ings",
+  "ing",
+  "ies",
+  "ied",
+  "ed",
+  "es",
+  "ly",
+  "s",
+];
+
+export function stemEnglish(word: string): string {
+  word = word.replace(/['’]s$/, "");
+  for (const suffix of ENGLISH_SUFFIXES) {
+    if (word.endsWith(suffix) && word.length - suffix.length >= 3) {
+      return word.slice(0, -suffix.length);
+    }
+  }
+  return word;
+}
+
+export function stemWord(word: string): string {
+  word = word.toLowerCase();
+  if (/[а-яё]/.test(word)) return stemRussian(word);
+  return stemEnglish(word);
+}
+
+const WORD_PATTERN = /[\p{L}\p{N}]+(?:['’][\p{L}]+)*/gu;
+
+export interface WordMatch {
+  word: string;
+  index: number;
+}
+
+export function splitWords(text: string): WordMatch[] {
+  return Array.from(text.matchAll(WORD_PATTERN), (match) => ({
+    word: match[0],
+    index: match.index,
+  }));
+}
+
+// Single letters are mostly prepositions and pronouns, not worth indexing.
+const MIN_WORD_LENGTH = 2;
+
+export function extractTerms(text: string): string[] {
+  const terms = new Set<string>();
+  for (const { word } of splitWords(text)) {
+    if (word.length < MIN_WORD_LENGTH) continue;
+    terms.add(stemWord(word));
+  }
+  return Array.from(terms);
+}
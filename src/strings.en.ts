@@ -0,0 +1,381 @@
+// The English catalog. Every other catalog has the same shape, so a string
+// missing from one of them fails the type check.
+export const en = {
+  common: {
+    save: "Save",
+    cancel: "Cancel",
+    from: "From",
+    to: "To",
+    loading: "Loading…",
+  },
+  chat: {
+    user: "USER",
+    assistant: "ASSISTANT",
+    summary: "SUMMARY",
+    edit: "Edit",
+    editTags: "Edit tags",
+    regenerate: "Regenerate reply",
+    delete: "Delete",
+    confirmDelete: "Delete the entry?",
+    changeFailed: "Failed to change the message",
+    tagsPlaceholder: "Tags, separated by commas",
+    interrupted: "The reply was interrupted and is shown in part",
+    stale: "Outdated, will be made again",
+    offline: "Offline, will be sent later",
+    sending: "Queued for sending",
+    waiting: "Waiting to be sent",
+    notSent: (error: string) => `Not sent: ${error}`,
+    retry: "Retry",
+    compressing: "Summarizing the history",
+    compressionFailed: (error: string, time: string) =>
+      `Failed to summarize the history: ${error}\nRetrying at ${time}`,
+    messagePlaceholder: "Message",
+    mood: "Mood",
+    saveFailed: "Failed to save the message",
+    attachFile: "Attach a photo or file",
+    takePhoto: "Take a photo",
+    record: "Record a voice entry",
+    stopRecording: "Stop recording",
+    transcribing: "Transcribing…",
+    transcriptionFailed: (error: string) =>
+      `Failed to transcribe the recording, it is attached as it is: ${error}`,
+    microphoneFailed: "The microphone is not available",
+    removeAttachment: "Remove",
+    attachmentTooLarge: (name: string, maxMegabytes: number) =>
+      `${name} is larger than ${maxMegabytes} MB`,
+    fileSize: (bytes: number) =>
+      bytes < 1024 * 1024
+        ? `${Math.ceil(bytes / 1024)} KB`
+        : `${(bytes / 1024 / 1024).toFixed(1)} MB`,
+  },
+  header: {
+    search: "Search",
+    tags: "Tags",
+    calendar: "Calendar",
+    reports: "Reports",
+    mood: "Mood",
+    profile: "Profile",
+    export: "Export",
+    import: "Import",
+    context: "What the model sees",
+    settings: "Settings",
+    lock: "Lock",
+  },
+  journals: {
+    title: "Journals",
+    systemPrompt: "System prompt",
+    systemPromptPlaceholder: "The chat system prompt from the settings",
+    confirmDelete: (name: string) =>
+      `Delete "${name}" with all of its entries?`,
+    newJournal: "New journal",
+    create: "Create",
+    manage: "Journals",
+    emptyName: "Name must not be empty",
+    lastJournal: "The last journal can't be deleted",
+  },
+  search: {
+    title: "Search",
+    placeholder: "Search",
+    archived: "In the archive",
+  },
+  tags: {
+    title: "Tags",
+    empty: "No tags yet.",
+    noTags: "The reply has no tags",
+  },
+  calendar: {
+    title: "Calendar",
+    daysThisMonth: (count: number) =>
+      `${count} ${count === 1 ? "day" : "days"} with entries this month`,
+    streaks: (current: number, longest: number) =>
+      `Current streak: ${current} ${current === 1 ? "day" : "days"}, longest: ${longest} ${longest === 1 ? "day" : "days"}`,
+    summaryDays:
+      "Gray days have no entries of their own but fall within a summary.",
+  },
+  mood: {
+    title: "Mood",
+    summary: (score: number) => `Mood ${score}/10`,
+    energy: (energy: number) => `energy ${energy}/10`,
+    sleep: (hours: number) => `sleep ${hours} h`,
+    noScore: "The reply has no mood score",
+    ranges: {
+      month: "30 days",
+      quarter: "90 days",
+      year: "Year",
+      all: "All time",
+    },
+    empty: "No mood recorded for this period yet.",
+    moodLine: "— mood",
+    energyLine: "- - energy",
+    averageSleep: (hours: string) => `Sleep ${hours} h on average`,
+  },
+  reports: {
+    title: "Reports",
+    weekly: "Weekly",
+    monthly: "Monthly",
+    sections: {
+      themes: "Themes",
+      wins: "Wins",
+      struggles: "Struggles",
+      patterns: "Recurring patterns",
+      focus: "Suggested focus",
+      changes: "Compared with the previous period",
+    },
+    madeFrom: (date: string, count: number) =>
+      `Made ${date} from ${count} ${count === 1 ? "entry" : "entries"}`,
+    empty: "No report for this period yet.",
+    emptyPrevious: "No report for the previous period.",
+    showPrevious: "Show the previous period",
+    generate: "Generate",
+    regenerate: "Regenerate",
+    generating: "Generating…",
+    noEntries: "No entries in this period",
+    tooLong: (tokens: number) =>
+      `The entries of this period are too long for one report (${tokens} tokens)`,
+  },
+  context: {
+    title: "What the model sees",
+    kinds: {
+      system: "System prompt",
+      profile: "Profile",
+      message: "Entry",
+      summary: "Summary",
+      recall: "Recalled",
+      entry: "New entry",
+    },
+    truncated: (tokens: number, fullTokens: number) =>
+      `cut to ${tokens} of ${fullTokens}`,
+    dropped: (fullTokens: number) => `dropped, ${fullTokens}`,
+    images: (count: number) => `${count} ${count === 1 ? "image" : "images"}`,
+    usage: (
+      model: string,
+      promptTokens: number,
+      replyTokens: number,
+      contextWindow: number,
+    ) =>
+      `${model}: ${promptTokens} prompt tokens and ${replyTokens} kept for the reply, of ${contextWindow}`,
+    droppedCount: (count: number) =>
+      `${count} older ${count === 1 ? "part" : "parts"} did not fit and were left out`,
+    next: "Next entry",
+    last: "Last request",
+    noRecall:
+      "Past entries are recalled by the text of the new one, so none are shown here.",
+    tooLong: (model: string, tokens: number, contextWindow: number) =>
+      `The entry does not fit the context window of ${model} (${tokens} of ${contextWindow} tokens with the reply)`,
+  },
+  profile: {
+    title: "Profile",
+    description:
+      "Lasting facts about you, kept from your entries so they are not lost in summaries. The model sees them with every new entry.",
+    off: "Updating the profile from new entries is off in the settings.",
+    noOperations: "The reply has no operations",
+    empty: "No facts yet.",
+    byUser: "written by you",
+    edit: "Edit",
+    delete: "Delete",
+    confirmDelete: "Delete the fact?",
+    newFact: "New fact",
+    add: "Add",
+    saveFailed: "Failed to save the profile",
+  },
+  export: {
+    title: "Export",
+    format: "Format",
+    formats: {
+      json: "JSON, for importing back",
+      markdown: "Markdown, one document",
+      "markdown-zip": "Markdown, a file per month in a ZIP",
+      text: "Plain text",
+      html: "Printable page, for saving as PDF",
+    },
+    includeAssistant: "Include assistant replies",
+    includeSummaries: "Include summaries",
+    unencrypted: "The journal is encrypted, but this file will not be.",
+    export: "Export",
+    exporting: "Exporting…",
+    journal: "Journal",
+    summaries: "Summaries",
+  },
+  import: {
+    title: "Import",
+    titleOf: (name: string) => `Import ${name}`,
+    jsonFile:
+      "JSON file: a journal export, ChatGPT conversations.json or a Day One export",
+    folder: "Folder of Markdown files named by date, like 2024-03-15.md",
+    reading: (name: string) => `Reading ${name}…`,
+    invalidJson: "The file is not valid JSON",
+    passphrase: "Passphrase of the exported journal",
+    cancelled: "Import cancelled",
+    counts: (messages: number, summaries: number) =>
+      `${messages} messages, ${summaries} summaries`,
+    deleted: (count: number) =>
+      `${count} entries of the current journal will be deleted`,
+    added: (count: number) => `${count} new entries will be added`,
+    conflicts: (count: number) =>
+      `${count} entries with the same id but different content will be overwritten`,
+    duplicates: (count: number) =>
+      `${count} entries are already in the journal`,
+    foreign: (count: number) =>
+      `${count} entries and attachments have the id of ones in another journal and will be imported as copies`,
+    merge: "Merge by id, keep the rest of the journal",
+    replace: "Replace the whole journal",
+    backupNote:
+      "A backup of the current journal is saved before importing and can be restored in the settings.",
+    import: "Import",
+    importing: "Importing…",
+    allConversations: "All conversations",
+    untitled: "Untitled",
+    conversationInfo: (date: string, count: number) =>
+      `${date}, ${count} messages`,
+    entriesAdded: (count: number) =>
+      `${count} entries will be added as messages, except the ones imported before`,
+    skipped: (count: number, names: string) =>
+      `${count} files without a date in the name are skipped: ${names}`,
+    importedBefore: (count: number) =>
+      `${count} entries were imported before and are skipped`,
+    beforeSummaries: (date: string) =>
+      `This journal is summarized up to ${date}, and some entries are older. Import them into a new journal instead.`,
+    summarizedLater:
+      "The history is then summarized in the background, which takes a request to the summary model for every summary.",
+  },
+  // Problems of a journal export, each about a field named by its path in
+  // the file, like message[3].created_at.
+  importErrors: {
+    notExport: "The file is not a journal export",
+    noVersion: "version is missing",
+    unsupportedVersion: (version: string) =>
+      `Unsupported export version "${version}", it may come from a newer version of the app`,
+    notObject: (field: string) => `${field} must be an object`,
+    notObjectOrNull: (field: string) => `${field} must be an object or null`,
+    notArray: (field: string) => `${field} must be an array`,
+    notArrayOrNull: (field: string) => `${field} must be an array or null`,
+    notString: (field: string) => `${field} must be a string`,
+    notNonEmptyString: (field: string) => `${field} must be a non-empty string`,
+    notStrings: (field: string) => `${field} must be an array of strings`,
+    notTags: (field: string) =>
+      `${field} must be an array of non-empty strings`,
+    notDate: (field: string) => `${field} must be a date`,
+    notBoolean: (field: string) => `${field} must be a boolean`,
+    notCount: (field: string) => `${field} must be a non-negative integer`,
+    notScore: (field: string) => `${field} must be an integer from 1 to 10`,
+    notScoreOrNull: (field: string) =>
+      `${field} must be an integer from 1 to 10 or null`,
+    notHoursOrNull: (field: string) =>
+      `${field} must be a non-negative number or null`,
+    notSource: (field: string) => `${field} must be "auto" or "manual"`,
+    notSummaryIdOrNull: (field: string) =>
+      `${field} must be a summary id or null`,
+    notMessageId: (field: string) => `${field} must be a message id`,
+    notAttachmentIds: (field: string) =>
+      `${field} must be an array of attachment ids`,
+    notBase64: (field: string) => `${field} must be a base64 string`,
+    duplicateId: (field: string, id: string) =>
+      `${field} "${id}" is used more than once`,
+    missingSummary: (field: string) => `${field} refers to a missing summary`,
+    missingMessage: (field: string) => `${field} refers to a missing message`,
+    missingAttachment: (field: string) =>
+      `${field} refers to a missing attachment`,
+    more: (count: number) => `…and ${count} more`,
+  },
+  backups: {
+    confirmRestore: "Replace the journal with this backup?",
+    empty:
+      "Backups are saved automatically before an import overwrites entries.",
+    info: (date: string, messages: number, summaries: number) =>
+      `${date}: ${messages} messages, ${summaries} summaries`,
+    restore: "Restore",
+    restoring: "Restoring…",
+    notFound: "Backup not found",
+  },
+  settings: {
+    title: "Settings",
+    confirmReset: "Reset all settings to defaults? API keys will be cleared.",
+    language: "Language",
+    providers: "Providers",
+    prompts: "Prompts",
+    chatSystemPrompt: "Chat system prompt",
+    compressSystemPrompt: "Summary system prompt",
+    compressInstruction: "Summary instruction",
+    promptsNote:
+      "Prompts left as they are follow the language of the interface.",
+    summarization: "Summarization",
+    minSummaryTokens: "Minimum summary size, tokens",
+    entryReading: "Reading entries",
+    moodTracking: "Read mood, emotions, energy and sleep from every new entry",
+    autoTagging: "Suggest tags for every new entry",
+    profileMemory: "Keep the profile up to date from every new entry",
+    encryption: "Encryption",
+    autoLockMinutes: "Lock after inactivity, minutes",
+    backups: "Backups",
+    reset: "Reset to defaults",
+    emptyChatPrompt: "Chat system prompt must not be empty",
+    emptySummaryPrompt: "Summary prompt must not be empty",
+    invalidSummarySize:
+      "Summary size must be a whole number of at least 500 tokens",
+    invalidAutoLock:
+      "Auto-lock delay must be a whole number of at least 1 minute",
+  },
+  providers: {
+    roles: {
+      chat: "Chat",
+      summary: "Summarization",
+      embedding: "Embeddings",
+      transcription: "Transcription",
+    },
+    testConnection: "Test connection",
+    usedFor: (roles: string) => `Used for ${roles}`,
+    baseUrl: "Base URL",
+    apiKey: "API key",
+    model: "Model",
+    temperature: "Temperature",
+    contextWindow: "Context window, tokens",
+    developerRole: 'Supports "developer" messages',
+    vision: "Takes images",
+    testing: "Testing connection…",
+    works: "Connection works",
+    addProfile: "Add profile…",
+    unnamed: "Unnamed profile",
+    noProfile: (role: string) => `No profile selected for "${role}"`,
+    emptyName: "Profile name must not be empty",
+    invalidUrl: (name: string) =>
+      `${name}: base URL must be an http(s) address`,
+    emptyModel: (name: string) => `${name}: model must not be empty`,
+    invalidTemperature: (name: string) =>
+      `${name}: temperature must be between 0 and 2`,
+    invalidContextWindow: (name: string) =>
+      `${name}: context window must be a whole number of at least 1024 tokens`,
+    networkError: (message: string) =>
+      `Network error: ${message}. Check the base URL, the connection and that the server accepts requests from this site (CORS).`,
+    authFailed: (status: number, details: string) =>
+      `Authentication failed (${status}): ${details}`,
+    notFound: (details: string) =>
+      `Not found (404), check the base URL and the model: ${details}`,
+    requestFailed: (status: number, details: string) =>
+      `Request failed (${status}): ${details}`,
+  },
+  encryption: {
+    loadFailed: (error: string) =>
+      `Failed to open the journal storage: ${error}. Try reloading the page.`,
+    passphrase: "Passphrase",
+    unlock: "Unlock",
+    unlocking: "Unlocking…",
+    wrongPassphrase: "Wrong passphrase",
+    mismatch: "Passphrases don't match",
+    enabled: "The journal and API keys are encrypted with a passphrase.",
+    disabled: "The journal is stored unencrypted on this device.",
+    change: "Change passphrase",
+    disable: "Disable",
+    lockNow: "Lock now",
+    enable: "Enable encryption",
+    current: "Current passphrase",
+    next: "New passphrase",
+    repeat: "Repeat new passphrase",
+    unrecoverable: "A forgotten passphrase can't be recovered.",
+    apply: "Apply",
+    reencrypting: "Re-encrypting…",
+  },
+  // How dates are written in the prompts, in date-fns notation.
+  timestampFormat: "EEEE, MMMM d, yyyy 'at' H:mm",
+};
+
+export type Strings = typeof en;
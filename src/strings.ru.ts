@@ -0,0 +1,370 @@
+import { Strings } from "./strings.en.ts";
+
+const pluralRules = new Intl.PluralRules("ru");
+
+function plural(count: number, one: string, few: string, many: string) {
+  const form = pluralRules.select(count);
+  return `${count} ${form === "one" ? one : form === "few" ? few : many}`;
+}
+
+export const ru: Strings = {
+  common: {
+    save: "Сохранить",
+    cancel: "Отмена",
+    from: "С",
+    to: "По",
+    loading: "Загрузка…",
+  },
+  chat: {
+    user: "ВЫ",
+    assistant: "АССИСТЕНТ",
+    summary: "СВОДКА",
+    edit: "Изменить",
+    editTags: "Изменить теги",
+    regenerate: "Ответить заново",
+    delete: "Удалить",
+    confirmDelete: "Удалить запись?",
+    changeFailed: "Ошибка при изменении сообщения",
+    tagsPlaceholder: "Теги через запятую",
+    interrupted: "Ответ прерван, показан частично",
+    stale: "Устарело, будет пересоздано",
+    offline: "Нет сети, отправится позже",
+    sending: "В очереди на отправку",
+    waiting: "Ожидает отправки",
+    notSent: (error) => `Не отправлено: ${error}`,
+    retry: "Повторить",
+    compressing: "Сжимается история",
+    compressionFailed: (error, time) =>
+      `Не удалось сжать историю: ${error}\nПовтор в ${time}`,
+    messagePlaceholder: "Сообщение",
+    mood: "Настроение",
+    saveFailed: "Ошибка при сохранении сообщения",
+    attachFile: "Прикрепить фото или файл",
+    takePhoto: "Сделать фото",
+    record: "Записать голосом",
+    stopRecording: "Остановить запись",
+    transcribing: "Распознаётся…",
+    transcriptionFailed: (error) =>
+      `Не удалось распознать запись, она прикреплена как есть: ${error}`,
+    microphoneFailed: "Микрофон недоступен",
+    removeAttachment: "Убрать",
+    attachmentTooLarge: (name, maxMegabytes) =>
+      `${name} больше ${maxMegabytes} МБ`,
+    fileSize: (bytes) =>
+      bytes < 1024 * 1024
+        ? `${Math.ceil(bytes / 1024)} КБ`
+        : `${(bytes / 1024 / 1024).toFixed(1)} МБ`,
+  },
+  header: {
+    search: "Поиск",
+    tags: "Теги",
+    calendar: "Календарь",
+    reports: "Отчёты",
+    mood: "Настроение",
+    profile: "Профиль",
+    export: "Экспорт",
+    import: "Импорт",
+    context: "Что видит модель",
+    settings: "Настройки",
+    lock: "Заблокировать",
+  },
+  journals: {
+    title: "Журналы",
+    systemPrompt: "Системный промпт",
+    systemPromptPlaceholder: "Системный промпт чата из настроек",
+    confirmDelete: (name) => `Удалить «${name}» вместе со всеми записями?`,
+    newJournal: "Новый журнал",
+    create: "Создать",
+    manage: "Журналы",
+    emptyName: "Название не может быть пустым",
+    lastJournal: "Последний журнал нельзя удалить",
+  },
+  search: {
+    title: "Поиск",
+    placeholder: "Поиск",
+    archived: "В архиве",
+  },
+  tags: {
+    title: "Теги",
+    empty: "Тегов пока нет.",
+    noTags: "В ответе нет тегов",
+  },
+  calendar: {
+    title: "Календарь",
+    daysThisMonth: (count) =>
+      `${plural(count, "день", "дня", "дней")} с записями в этом месяце`,
+    streaks: (current, longest) =>
+      `Серия сейчас: ${plural(current, "день", "дня", "дней")}, самая длинная: ${plural(longest, "день", "дня", "дней")}`,
+    summaryDays:
+      "Серые дни без своих записей, но входят в какую-нибудь сводку.",
+  },
+  mood: {
+    title: "Настроение",
+    summary: (score) => `Настроение ${score}/10`,
+    energy: (energy) => `энергия ${energy}/10`,
+    sleep: (hours) => `сон ${hours} ч`,
+    noScore: "В ответе нет оценки настроения",
+    ranges: {
+      month: "30 дней",
+      quarter: "90 дней",
+      year: "Год",
+      all: "Всё время",
+    },
+    empty: "За этот период настроение ещё не отмечено.",
+    moodLine: "— настроение",
+    energyLine: "- - энергия",
+    averageSleep: (hours) => `Сон в среднем ${hours} ч`,
+  },
+  reports: {
+    title: "Отчёты",
+    weekly: "За неделю",
+    monthly: "За месяц",
+    sections: {
+      themes: "Темы",
+      wins: "Удачи",
+      struggles: "Трудности",
+      patterns: "Повторяющееся",
+      focus: "На что обратить внимание",
+      changes: "По сравнению с прошлым периодом",
+    },
+    madeFrom: (date, count) =>
+      `Составлен ${date} по ${plural(count, "записи", "записям", "записям")}`,
+    empty: "Отчёта за этот период пока нет.",
+    emptyPrevious: "Отчёта за прошлый период нет.",
+    showPrevious: "Показать прошлый период",
+    generate: "Составить",
+    regenerate: "Составить заново",
+    generating: "Составляется…",
+    noEntries: "За этот период нет записей",
+    tooLong: (tokens) =>
+      `Записи этого периода слишком длинные для одного отчёта (${plural(tokens, "токен", "токена", "токенов")})`,
+  },
+  context: {
+    title: "Что видит модель",
+    kinds: {
+      system: "Системный промпт",
+      profile: "Профиль",
+      message: "Запись",
+      summary: "Сводка",
+      recall: "Из архива",
+      entry: "Новая запись",
+    },
+    truncated: (tokens, fullTokens) => `обрезано до ${tokens} из ${fullTokens}`,
+    dropped: (fullTokens) => `не вошло, ${fullTokens}`,
+    images: (count) =>
+      plural(count, "изображение", "изображения", "изображений"),
+    usage: (model, promptTokens, replyTokens, contextWindow) =>
+      `${model}: ${promptTokens} токенов запроса и ${replyTokens} на ответ из ${contextWindow}`,
+    droppedCount: (count) =>
+      `${plural(count, "старая часть не поместилась", "старые части не поместились", "старых частей не поместилось")} и не отправлены`,
+    next: "Следующая запись",
+    last: "Последний запрос",
+    noRecall:
+      "Записи из архива подбираются по тексту новой записи, поэтому здесь их нет.",
+    tooLong: (model, tokens, contextWindow) =>
+      `Запись не помещается в контекст ${model} (${tokens} из ${contextWindow} токенов вместе с ответом)`,
+  },
+  profile: {
+    title: "Профиль",
+    description:
+      "Постоянные факты о вас из ваших записей, чтобы они не терялись в сводках. Модель видит их с каждой новой записью.",
+    off: "Обновление профиля по новым записям отключено в настройках.",
+    noOperations: "В ответе нет операций",
+    empty: "Фактов пока нет.",
+    byUser: "записано вами",
+    edit: "Изменить",
+    delete: "Удалить",
+    confirmDelete: "Удалить факт?",
+    newFact: "Новый факт",
+    add: "Добавить",
+    saveFailed: "Ошибка при сохранении профиля",
+  },
+  export: {
+    title: "Экспорт",
+    format: "Формат",
+    formats: {
+      json: "JSON, для импорта обратно",
+      markdown: "Markdown, одним документом",
+      "markdown-zip": "Markdown, по файлу на месяц в ZIP",
+      text: "Простой текст",
+      html: "Страница для печати и сохранения в PDF",
+    },
+    includeAssistant: "С ответами ассистента",
+    includeSummaries: "Со сводками",
+    unencrypted: "Журнал зашифрован, но этот файл не будет.",
+    export: "Экспортировать",
+    exporting: "Экспорт…",
+    journal: "Журнал",
+    summaries: "Сводки",
+  },
+  import: {
+    title: "Импорт",
+    titleOf: (name) => `Импорт ${name}`,
+    jsonFile:
+      "JSON-файл: экспорт журнала, conversations.json из ChatGPT или экспорт Day One",
+    folder: "Папка Markdown-файлов, названных по дате, вроде 2024-03-15.md",
+    reading: (name) => `Читается ${name}…`,
+    invalidJson: "Файл не является корректным JSON",
+    passphrase: "Пароль экспортированного журнала",
+    cancelled: "Импорт отменён",
+    counts: (messages, summaries) =>
+      `${plural(messages, "сообщение", "сообщения", "сообщений")}, ${plural(summaries, "сводка", "сводки", "сводок")}`,
+    deleted: (count) => `Из текущего журнала будет удалено записей: ${count}`,
+    added: (count) => `Будет добавлено новых записей: ${count}`,
+    conflicts: (count) =>
+      `Записей с тем же id, но другим содержимым, будет перезаписано: ${count}`,
+    duplicates: (count) => `Записей уже есть в журнале: ${count}`,
+    foreign: (count) =>
+      `Записей и вложений с id из другого журнала, они будут импортированы копиями: ${count}`,
+    merge: "Объединить по id, оставив остальной журнал",
+    replace: "Заменить журнал целиком",
+    backupNote:
+      "Перед импортом сохраняется резервная копия текущего журнала, её можно восстановить в настройках.",
+    import: "Импортировать",
+    importing: "Импорт…",
+    allConversations: "Все разговоры",
+    untitled: "Без названия",
+    conversationInfo: (date, count) =>
+      `${date}, ${plural(count, "сообщение", "сообщения", "сообщений")}`,
+    entriesAdded: (count) =>
+      `Сообщениями будет добавлено записей: ${count}, кроме уже импортированных`,
+    skipped: (count, names) =>
+      `Пропущено файлов без даты в названии: ${count}: ${names}`,
+    importedBefore: (count) =>
+      `Пропущено записей, импортированных раньше: ${count}`,
+    beforeSummaries: (date) =>
+      `Этот журнал уже сжат в сводки до ${date}, а часть записей старше. Импортируйте их в новый журнал.`,
+    summarizedLater:
+      "Затем история сжимается в фоне, на каждую сводку уходит запрос к модели сводок.",
+  },
+  importErrors: {
+    notExport: "Файл не является экспортом журнала",
+    noVersion: "Не указана version",
+    unsupportedVersion: (version) =>
+      `Неподдерживаемая версия экспорта "${version}", возможно, файл из более новой версии приложения`,
+    notObject: (field) => `${field} должно быть объектом`,
+    notObjectOrNull: (field) => `${field} должно быть объектом или null`,
+    notArray: (field) => `${field} должно быть массивом`,
+    notArrayOrNull: (field) => `${field} должно быть массивом или null`,
+    notString: (field) => `${field} должно быть строкой`,
+    notNonEmptyString: (field) => `${field} должно быть непустой строкой`,
+    notStrings: (field) => `${field} должно быть массивом строк`,
+    notTags: (field) => `${field} должно быть массивом непустых строк`,
+    notDate: (field) => `${field} должно быть датой`,
+    notBoolean: (field) => `${field} должно быть true или false`,
+    notCount: (field) => `${field} должно быть неотрицательным целым числом`,
+    notScore: (field) => `${field} должно быть целым числом от 1 до 10`,
+    notScoreOrNull: (field) =>
+      `${field} должно быть целым числом от 1 до 10 или null`,
+    notHoursOrNull: (field) =>
+      `${field} должно быть неотрицательным числом или null`,
+    notSource: (field) => `${field} должно быть "auto" или "manual"`,
+    notSummaryIdOrNull: (field) => `${field} должно быть id сводки или null`,
+    notMessageId: (field) => `${field} должно быть id сообщения`,
+    notAttachmentIds: (field) => `${field} должно быть массивом id вложений`,
+    notBase64: (field) => `${field} должно быть строкой base64`,
+    duplicateId: (field, id) =>
+      `${field} "${id}" встречается больше одного раза`,
+    missingSummary: (field) => `${field} ссылается на несуществующую сводку`,
+    missingMessage: (field) => `${field} ссылается на несуществующее сообщение`,
+    missingAttachment: (field) =>
+      `${field} ссылается на несуществующее вложение`,
+    more: (count) => `…и ещё ${count}`,
+  },
+  backups: {
+    confirmRestore: "Заменить журнал этой резервной копией?",
+    empty:
+      "Резервные копии сохраняются сами, прежде чем импорт перезапишет записи.",
+    info: (date, messages, summaries) =>
+      `${date}: ${plural(messages, "сообщение", "сообщения", "сообщений")}, ${plural(summaries, "сводка", "сводки", "сводок")}`,
+    restore: "Восстановить",
+    restoring: "Восстановление…",
+    notFound: "Резервная копия не найдена",
+  },
+  settings: {
+    title: "Настройки",
+    confirmReset: "Сбросить все настройки? Ключи API будут удалены.",
+    language: "Язык",
+    providers: "Провайдеры",
+    prompts: "Промпты",
+    chatSystemPrompt: "Системный промпт чата",
+    compressSystemPrompt: "Системный промпт сводок",
+    compressInstruction: "Инструкция для сводок",
+    promptsNote: "Промпты, которые не меняли, следуют языку интерфейса.",
+    summarization: "Сводки",
+    minSummaryTokens: "Наименьший размер сводки, токенов",
+    entryReading: "Разбор записей",
+    moodTracking:
+      "Определять настроение, эмоции, энергию и сон по каждой записи",
+    autoTagging: "Предлагать теги для каждой записи",
+    profileMemory: "Обновлять профиль по каждой новой записи",
+    encryption: "Шифрование",
+    autoLockMinutes: "Блокировать после бездействия, минут",
+    backups: "Резервные копии",
+    reset: "Сбросить",
+    emptyChatPrompt: "Системный промпт чата не может быть пустым",
+    emptySummaryPrompt: "Промпт сводок не может быть пустым",
+    invalidSummarySize:
+      "Размер сводки должен быть целым числом не меньше 500 токенов",
+    invalidAutoLock:
+      "Время до блокировки должно быть целым числом не меньше 1 минуты",
+  },
+  providers: {
+    roles: {
+      chat: "Чат",
+      summary: "Сводки",
+      embedding: "Эмбеддинги",
+      transcription: "Распознавание речи",
+    },
+    testConnection: "Проверить соединение",
+    usedFor: (roles) => `Используется для: ${roles}`,
+    baseUrl: "Базовый URL",
+    apiKey: "Ключ API",
+    model: "Модель",
+    temperature: "Температура",
+    contextWindow: "Окно контекста, токенов",
+    developerRole: "Поддерживает сообщения «developer»",
+    vision: "Принимает изображения",
+    testing: "Проверка соединения…",
+    works: "Соединение работает",
+    addProfile: "Добавить профиль…",
+    unnamed: "Профиль без названия",
+    noProfile: (role) => `Не выбран профиль для «${role}»`,
+    emptyName: "Название профиля не может быть пустым",
+    invalidUrl: (name) => `${name}: базовый URL должен быть адресом http(s)`,
+    emptyModel: (name) => `${name}: модель не может быть пустой`,
+    invalidTemperature: (name) => `${name}: температура должна быть от 0 до 2`,
+    invalidContextWindow: (name) =>
+      `${name}: окно контекста должно быть целым числом не меньше 1024 токенов`,
+    networkError: (message) =>
+      `Ошибка сети: ${message}. Проверьте базовый URL, соединение и что сервер принимает запросы с этого сайта (CORS).`,
+    authFailed: (status, details) =>
+      `Ошибка авторизации (${status}): ${details}`,
+    notFound: (details) =>
+      `Не найдено (404), проверьте базовый URL и модель: ${details}`,
+    requestFailed: (status, details) =>
+      `Ошибка запроса (${status}): ${details}`,
+  },
+  encryption: {
+    loadFailed: (error) =>
+      `Не удалось открыть хранилище журнала: ${error}. Попробуйте перезагрузить страницу.`,
+    passphrase: "Пароль",
+    unlock: "Открыть",
+    unlocking: "Открывается…",
+    wrongPassphrase: "Неверный пароль",
+    mismatch: "Пароли не совпадают",
+    enabled: "Журнал и ключи API зашифрованы паролем.",
+    disabled: "Журнал хранится на этом устройстве без шифрования.",
+    change: "Сменить пароль",
+    disable: "Отключить",
+    lockNow: "Заблокировать",
+    enable: "Включить шифрование",
+    current: "Текущий пароль",
+    next: "Новый пароль",
+    repeat: "Новый пароль ещё раз",
+    unrecoverable: "Забытый пароль восстановить нельзя.",
+    apply: "Применить",
+    reencrypting: "Перешифровывается…",
+  },
+  timestampFormat: "EEEE, d MMMM yyyy 'в' H:mm",
+};
@@ -0,0 +1,178 @@
+import { useQuery } from "@tanstack/react-query";
+import { createContext } from "react";
+import {
+  DBSummary,
+  getJournalMessages,
+  getMessage,
+  getSummary,
+  getTaggedEntries,
+  updateData,
+} from "./db.ts";
+import { createJsonCompletion, getSummaryChildren } from "./ai.ts";
+import { getStrings } from "./i18n.ts";
+import { getArchivePath, SearchResult, SnippetPart } from "./search.ts";
+import { getSettings } from "./settings.ts";
+
+// Opens the tag page, or the list of every tag for null.
+export const TagContext = createContext<(tag: string | null) => void>(() => {});
+
+const TAGS_PROMPT = `
+You read a personal journal entry and tag it. Reply with a JSON object:
+
+{"tags": ["..."]}
+
+- tags: up to five people, places and recurring themes the entry is about, each one to three lowercase words in the language of the entry
+- prefer the existing tags of the journal, listed in the user message, over new spellings of the same thing
+- an empty list is fine for an entry about nothing in particular
+`.trim();
+
+const MAX_SUGGESTED_TAGS = 5;
+
+// The journal's tags the model is shown, the most used first.
+const MAX_KNOWN_TAGS = 100;
+
+const SNIPPET_LENGTH = 160;
+
+export function normalizeTag(tag: string): string {
+  return tag.trim().replace(/^#+/, "").replace(/\s+/g, " ").toLowerCase();
+}
+
+// "Anna, #work ,, trip" -> ["anna", "work", "trip"]
+export function parseTags(text: string): string[] {
+  return [...new Set(text.split(",").map(normalizeTag))].filter(
+    (tag) => tag !== "",
+  );
+}
+
+// Sorted and without repeats; undefined rather than an empty list, like the
+// other optional fields of an entry.
+export function mergeTags(
+  ...lists: (string[] | undefined)[]
+): string[] | undefined {
+  const tags = [...new Set(lists.flatMap((list) => list ?? []))].sort();
+  return tags.length > 0 ? tags : undefined;
+}
+
+// How many messages of the journal carry each tag, the most used first.
+export async function getJournalTags(
+  journalId: string,
+): Promise<[string, number][]> {
+  const counts = new Map<string, number>();
+  for (const message of await getJournalMessages(journalId)) {
+    for (const tag of message.tags ?? []) {
+      counts.set(tag, (counts.get(tag) ?? 0) + 1);
+    }
+  }
+  return [...counts].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]));
+}
+
+export function useJournalTags(journalId: string): [string, number][] {
+  const { data } = useQuery({
+    queryKey: ["chat", "tags", journalId],
+    queryFn: () => getJournalTags(journalId),
+  });
+  return data ?? [];
+}
+
+// A summary carries the tags of everything it was made from, so after a
+// message's tags change, every summary above it is brought up to date.
+export async function updateSummaryTags(summaryId: string | "NULL") {
+  const summaries: DBSummary[] = [];
+  let id = summaryId;
+  while (id !== "NULL") {
+    const summary = await getSummary(id);
+    if (!summary) break;
+    const children = await getSummaryChildren(id);
+    // The summary below is not saved yet, so its new tags come from the list.
+    const tags = mergeTags(
+      ...children.map(
+        (child) => summaries.find((s) => s.id === child.id)?.tags ?? child.tags,
+      ),
+    );
+    summaries.push({ ...summary, tags });
+    id = summary.parentId;
+  }
+  await updateData(summaries, []);
+}
+
+// Asks the model for tags of a sent message and adds them to the ones the
+// user gave.
+export async function suggestTags(messageId: string) {
+  if (!getSettings().autoTagging) return;
+  const message = await getMessage(messageId);
+  if (!message || message.pending) return;
+
+  const knownTags = (await getJournalTags(message.journalId))
+    .slice(0, MAX_KNOWN_TAGS)
+    .map(([tag]) => tag);
+  const json = await createJsonCompletion(
+    "summary",
+    TAGS_PROMPT,
+    `Existing tags: ${knownTags.join(", ") || "none"}\n\n${message.userContent}`,
+  );
+  const suggested =
+    typeof json === "object" && json !== null && "tags" in json
+      ? json.tags
+      : null;
+  if (!Array.isArray(suggested)) throw new Error(getStrings().tags.noTags);
+
+  const tags = parseTags(
+    suggested
+      .filter((tag) => typeof tag === "string")
+      .slice(0, MAX_SUGGESTED_TAGS)
+      .join(","),
+  );
+
+  // The message may have been summarized in the meantime.
+  const current = await getMessage(messageId);
+  if (!current) return;
+  await updateData([], [{ ...current, tags: mergeTags(current.tags, tags) }]);
+  await updateSummaryTags(current.summaryId);
+}
+
+function toSnippet(text: string): SnippetPart[] {
+  const snippet =
+    text.length > SNIPPET_LENGTH
+      ? `${text.slice(0, SNIPPET_LENGTH).trimEnd()}…`
+      : text;
+  return [{ text: snippet, highlight: false }];
+}
+
+// Messages and summaries of the journal with the tag, active or archived at
+// any depth, newest first.
+export async function getTagResults(
+  journalId: string,
+  tag: string,
+): Promise<SearchResult[]> {
+  const { messages, summaries } = await getTaggedEntries(journalId, tag);
+  const results: SearchResult[] = [];
+
+  for (const message of messages) {
+    results.push({
+      id: message.id,
+      type: "message",
+      date: message.createdAt,
+      path: await getArchivePath(message.summaryId),
+      snippets: [{ field: "user", parts: toSnippet(message.userContent) }],
+    });
+  }
+  for (const summary of summaries) {
+    results.push({
+      id: summary.id,
+      type: "summary",
+      date: summary.dateTo,
+      path: await getArchivePath(summary.parentId),
+      snippets: [{ field: "summary", parts: toSnippet(summary.content) }],
+    });
+  }
+
+  return results.sort((a, b) => b.date.valueOf() - a.date.valueOf());
+}
+
+export function useTagResults(journalId: string, tag: string): SearchResult[] {
+  const { data } = useQuery({
+    queryKey: ["chat", "tag", journalId, tag],
+    queryFn: () => getTagResults(journalId, tag),
+  });
+  return data ?? [];
+}
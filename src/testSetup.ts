@@ -0,0 +1,15 @@
+// Tests run in jsdom, which has no IndexedDB of its own.
+import "fake-indexeddb/auto";
+import { afterEach } from "vitest";
+import { deleteDB } from "idb";
+
+// jsdom's Blob can't be read any more once IndexedDB has cloned it; the one
+// of Node, which fetch hands out, can.
+globalThis.Blob = (await new Response().blob()).constructor as typeof Blob;
+
+// Every test starts with an empty database. The app closes its connection
+// when asked to, the way it does for another tab.
+afterEach(async () => {
+  localStorage.clear();
+  await deleteDB("gpt_journal");
+});
@@ -0,0 +1,38 @@
+import {
+  countTokens as countCl100kTokens,
+  decode as decodeCl100k,
+  encode as encodeCl100k,
+} from "gpt-tokenizer/encoding/cl100k_base";
+import {
+  countTokens as countO200kTokens,
+  decode as decodeO200k,
+  encode as encodeO200k,
+} from "gpt-tokenizer/encoding/o200k_base";
+
+export type TokenizerEncoding = "cl100k_base" | "o200k_base";
+
+// Models released before gpt-4o use cl100k_base. Everything else, including
+// local models with their own vocabularies, is approximated with o200k_base.
+const CL100K_MODELS = /^(gpt-4(?![o.])|gpt-3\.5|text-embedding)/;
+
+export function getEncoding(model: string): TokenizerEncoding {
+  return CL100K_MODELS.test(model) ? "cl100k_base" : "o200k_base";
+}
+
+export function countTokens(text: string, model: string): number {
+  return getEncoding(model) === "cl100k_base"
+    ? countCl100kTokens(text)
+    : countO200kTokens(text);
+}
+
+// Keeps the first `maxTokens` tokens of the text.
+export function truncateTokens(
+  text: string,
+  maxTokens: number,
+  model: string,
+): string {
+  if (getEncoding(model) === "cl100k_base") {
+    return decodeCl100k(encodeCl100k(text).slice(0, maxTokens));
+  }
+  return decodeO200k(encodeO200k(text).slice(0, maxTokens));
+}
@@ -0,0 +1,68 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { format } from "date-fns";
+import { transcribeAudio } from "./ai.ts";
+import { getProvider } from "./providers.ts";
+
+// Browsers record in what they support: Chrome in WebM, Firefox in Ogg or
+// WebM, Safari in MP4.
+const EXTENSIONS: [string, string][] = [
+  ["audio/webm", "webm"],
+  ["audio/ogg", "ogg"],
+  ["audio/mp4", "m4a"],
+  ["audio/mpeg", "mp3"],
+  ["audio/wav", "wav"],
+];
+
+// Some browsers don't tell what they recorded in, the first type is the
+// likeliest then.
+function createVoiceFile(audio: Blob, recordedAt: Date): File {
+  const [type, extension] =
+    EXTENSIONS.find(([type]) => audio.type.startsWith(type)) ?? EXTENSIONS[0];
+  const name = `voice-${format(recordedAt, "yyyy-MM-dd-HHmmss")}.${extension}`;
+  return new File([audio], name, { type: audio.type || type });
+}
+
+export function transcribe(file: File): Promise<string> {
+  return transcribeAudio(getProvider("transcription"), file, file.name);
+}
+
+// Records from the microphone until stopped, then hands over the recording
+// as a file ready to be attached.
+export function useVoiceRecorder(onRecorded: (file: File) => void) {
+  const [isRecording, setRecording] = useState(false);
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const isUnmountedRef = useRef(false);
+
+  const start = useCallback(async () => {
+    const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    const recorder = new MediaRecorder(stream);
+    const chunks: Blob[] = [];
+    const startedAt = new Date();
+    recorder.ondataavailable = (e) => chunks.push(e.data);
+    recorder.onstop = () => {
+      stream.getTracks().forEach((track) => track.stop());
+      recorderRef.current = null;
+      if (isUnmountedRef.current) return;
+      setRecording(false);
+      const audio = new Blob(chunks, { type: recorder.mimeType });
+      onRecorded(createVoiceFile(audio, startedAt));
+    };
+    recorder.start();
+    recorderRef.current = recorder;
+    setRecording(true);
+  }, [onRecorded]);
+
+  const stop = useCallback(() => recorderRef.current?.stop(), []);
+
+  // Leaves the microphone on otherwise. The recording is dropped, there is
+  // nothing left to attach it to.
+  useEffect(() => {
+    isUnmountedRef.current = false;
+    return () => {
+      isUnmountedRef.current = true;
+      recorderRef.current?.stop();
+    };
+  }, []);
+
+  return { isRecording, start, stop };
+}
@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import { defineConfig } from "vite";
 import react from "@vitejs/plugin-react";
 import tailwindcss from "@tailwindcss/vite";
@@ -10,6 +11,11 @@ export default defineConfig({
     tailwindcss(),
     VitePWA({
       registerType: "autoUpdate",
+      workbox: {
+        // The tokenizer vocabularies make the main chunk larger than the
+        // default 2 MiB, and it still has to be available offline.
+        maximumFileSizeToCacheInBytes: 8 * 1024 * 1024,
+      },
       manifest: {
         name: "GPT Journal",
         short_name: "GPT Journal",
@@ -31,4 +37,8 @@ export default defineConfig({
     }),
   ],
   base: "/gpt-journal-web/",
+  test: {
+    environment: "jsdom",
+    setupFiles: ["src/testSetup.ts"],
+  },
 });